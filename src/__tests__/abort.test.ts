@@ -0,0 +1,267 @@
+import axios from "axios";
+import { IPFlare, type IPGeolocationOptions } from "../index";
+
+// Mock axios
+jest.mock("axios", () => ({
+  create: jest.fn(() => ({
+    get: jest.fn(),
+    post: jest.fn(),
+  })),
+  isAxiosError: jest.fn(),
+}));
+
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+const mockAxiosInstance = {
+  get: jest.fn(),
+  post: jest.fn(),
+} as any;
+
+const geo = (ip: string) => ({ ip, in_eu: false, land_locked: false });
+
+// Behaves like axios: never settles on its own and rejects once aborted
+const hangingRequest = (_path: string, ...args: any[]) =>
+  new Promise((_resolve, reject) => {
+    const { signal } = args[args.length - 1] as { signal?: AbortSignal };
+    signal?.addEventListener("abort", () =>
+      reject(Object.assign(new Error("canceled"), { isAxiosError: true }))
+    );
+  });
+
+// Lets the client get as far as sending the request
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+const aborted = {
+  ok: false,
+  error: {
+    type: "ABORTED",
+    message: "The operation was aborted",
+    details: expect.anything(),
+  },
+};
+
+describe("AbortSignal cancellation", () => {
+  const client = (options: Partial<IPGeolocationOptions> = {}) =>
+    new IPFlare({ apiKey: "test-api-key", ...options });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedAxios.create.mockReturnValue(mockAxiosInstance);
+    mockedAxios.isAxiosError.mockReturnValue(true);
+    mockAxiosInstance.get.mockResolvedValue({ data: geo("8.8.8.8") });
+  });
+
+  it("should not send requests for signals that already aborted", async () => {
+    const controller = new AbortController();
+    controller.abort("gone");
+
+    const result = await client().lookup("8.8.8.8", {
+      signal: controller.signal,
+    });
+
+    expect(result).toEqual({
+      ok: false,
+      error: {
+        type: "ABORTED",
+        message: "The operation was aborted",
+        details: "gone",
+      },
+    });
+    expect(mockAxiosInstance.get).not.toHaveBeenCalled();
+  });
+
+  it("should cancel the HTTP request of a lookup", async () => {
+    mockAxiosInstance.get.mockImplementation(hangingRequest);
+    const controller = new AbortController();
+
+    const result = client().lookup("8.8.8.8", { signal: controller.signal });
+    await settle();
+    controller.abort();
+
+    expect(await result).toEqual(aborted);
+    const [, config] = mockAxiosInstance.get.mock.calls[0];
+    expect(config.signal.aborted).toBe(true);
+  });
+
+  it("should keep shared requests running for callers that did not abort", async () => {
+    let respond: (value: unknown) => void = () => undefined;
+    mockAxiosInstance.get.mockImplementation(
+      () => new Promise((resolve) => (respond = resolve))
+    );
+    const geolocator = client();
+    const controller = new AbortController();
+
+    const first = geolocator.lookup("8.8.8.8", { signal: controller.signal });
+    const second = geolocator.lookup("8.8.8.8", {
+      signal: new AbortController().signal,
+    });
+    await settle();
+    controller.abort();
+    respond({ data: geo("8.8.8.8") });
+
+    expect(await first).toEqual(aborted);
+    expect(await second).toEqual({ ok: true, data: geo("8.8.8.8") });
+    expect(mockAxiosInstance.get).toHaveBeenCalledTimes(1);
+    expect(mockAxiosInstance.get.mock.calls[0][1].signal.aborted).toBe(false);
+  });
+
+  it("should cancel shared requests once every caller aborted", async () => {
+    mockAxiosInstance.get.mockImplementation(hangingRequest);
+    const geolocator = client();
+    const controllers = [new AbortController(), new AbortController()];
+
+    const results = controllers.map((controller) =>
+      geolocator.lookup("8.8.8.8", { signal: controller.signal })
+    );
+    await settle();
+    controllers.forEach((controller) => controller.abort());
+
+    expect(await Promise.all(results)).toEqual([aborted, aborted]);
+    expect(mockAxiosInstance.get.mock.calls[0][1].signal.aborted).toBe(true);
+
+    // A later lookup starts a fresh request
+    mockAxiosInstance.get.mockResolvedValue({ data: geo("8.8.8.8") });
+    expect(await geolocator.lookup("8.8.8.8")).toEqual({
+      ok: true,
+      data: geo("8.8.8.8"),
+    });
+    expect(mockAxiosInstance.get).toHaveBeenCalledTimes(2);
+  });
+
+  it("should cancel queued retries", async () => {
+    const serverError = Object.assign(new Error("Internal"), {
+      isAxiosError: true,
+      response: { status: 500, data: {} },
+    });
+    mockAxiosInstance.get.mockRejectedValue(serverError);
+    const controller = new AbortController();
+    const geolocator = client({
+      retry: { maxAttempts: 3, baseDelay: 60000, jitter: false },
+    });
+
+    const result = geolocator.lookup("8.8.8.8", { signal: controller.signal });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    controller.abort();
+
+    expect(await result).toEqual(aborted);
+    expect(mockAxiosInstance.get).toHaveBeenCalledTimes(1);
+  });
+
+  it("should cancel rate limit waits and serve the next caller", async () => {
+    const geolocator = client({
+      rateLimit: { requestsPerSecond: 20, burst: 1 },
+    });
+    const controller = new AbortController();
+
+    await geolocator.lookup("8.8.8.8");
+    const waiting = geolocator.bulkLookup({
+      ips: ["1.1.1.1"],
+      signal: controller.signal,
+    });
+    const next = geolocator.lookup("9.9.9.9");
+    controller.abort();
+
+    expect(await waiting).toEqual(aborted);
+    expect(await next).toEqual({ ok: true, data: geo("8.8.8.8") });
+    expect(mockAxiosInstance.post).not.toHaveBeenCalled();
+    expect(mockAxiosInstance.get).toHaveBeenCalledTimes(2);
+  });
+
+  it("should drop aborted lookups from pending batches", async () => {
+    mockAxiosInstance.post.mockResolvedValue({
+      data: {
+        results: [{ ip: "1.1.1.1", status: "success", data: geo("1.1.1.1") }],
+      },
+    });
+    const geolocator = client({ batch: { window: 20 } });
+    const controller = new AbortController();
+
+    const dropped = geolocator.lookup("8.8.8.8", { signal: controller.signal });
+    const kept = geolocator.lookup("1.1.1.1");
+    controller.abort();
+
+    expect(await dropped).toEqual(aborted);
+    expect(await kept).toEqual({ ok: true, data: geo("1.1.1.1") });
+    expect(mockAxiosInstance.post).toHaveBeenCalledTimes(1);
+    expect(mockAxiosInstance.post.mock.calls[0][1]).toEqual({
+      ips: ["1.1.1.1"],
+    });
+  });
+
+  it("should not dispatch batches whose lookups all aborted", async () => {
+    const geolocator = client({ batch: { window: 5 } });
+    const controller = new AbortController();
+
+    const result = geolocator.lookup("8.8.8.8", { signal: controller.signal });
+    controller.abort();
+
+    expect(await result).toEqual(aborted);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(mockAxiosInstance.post).not.toHaveBeenCalled();
+  });
+
+  it("should cancel bulk lookups", async () => {
+    mockAxiosInstance.post.mockImplementation(hangingRequest);
+    const controller = new AbortController();
+
+    const result = client().bulkLookup({
+      ips: ["1.1.1.1", "8.8.8.8"],
+      signal: controller.signal,
+    });
+    await settle();
+    controller.abort();
+
+    expect(await result).toEqual(aborted);
+    expect(mockAxiosInstance.post.mock.calls[0][2].signal.aborted).toBe(true);
+  });
+
+  it("should stop bulkLookupAll before later chunks", async () => {
+    mockAxiosInstance.post.mockImplementation(hangingRequest);
+    const controller = new AbortController();
+    const ips = Array.from(
+      { length: 1500 },
+      (_, i) => `10.0.${i >> 8}.${i & 255}`
+    );
+
+    const result = client().bulkLookupAll({
+      ips,
+      concurrency: 1,
+      signal: controller.signal,
+    });
+    await settle();
+    controller.abort();
+
+    expect(await result).toEqual(aborted);
+    expect(mockAxiosInstance.post).toHaveBeenCalledTimes(1);
+  });
+
+  it("should cancel fetch transport requests", async () => {
+    const controller = new AbortController();
+    const geolocator = client({
+      transport: "fetch",
+      baseURL: "http://127.0.0.1:1",
+    });
+    const fetchMock = jest
+      .spyOn(global, "fetch")
+      .mockImplementation(
+        (_input, init) =>
+          new Promise((_resolve, reject) =>
+            init?.signal?.addEventListener("abort", () =>
+              reject(new Error("This operation was aborted"))
+            )
+          )
+      );
+
+    try {
+      const result = geolocator.lookup("8.8.8.8", {
+        signal: controller.signal,
+      });
+      await settle();
+      controller.abort();
+
+      expect(await result).toEqual(aborted);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    } finally {
+      fetchMock.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,256 @@
+import axios from "axios";
+import { IPFlare } from "../index";
+import { Batcher, resolveBatchOptions } from "../batcher";
+
+// Mock axios
+jest.mock("axios", () => ({
+  create: jest.fn(() => ({
+    get: jest.fn(),
+    post: jest.fn(),
+  })),
+  isAxiosError: jest.fn(),
+}));
+
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+const mockAxiosInstance = {
+  get: jest.fn(),
+  post: jest.fn(),
+} as any;
+
+const geo = (ip: string) => ({ ip, in_eu: false, land_locked: false });
+
+describe("Batcher", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should dispatch loads collected within the window together", async () => {
+    const dispatch = jest.fn(async (keys: number[]) => keys.map((k) => k * 2));
+    const batcher = new Batcher({ window: 10, maxSize: 500 }, dispatch);
+
+    const values = Promise.all([batcher.load(1), batcher.load(2)]);
+    await jest.advanceTimersByTimeAsync(9);
+    expect(dispatch).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(await values).toEqual([2, 4]);
+    expect(dispatch).toHaveBeenCalledWith([1, 2]);
+  });
+
+  it("should dispatch early once maxSize is reached", async () => {
+    const dispatch = jest.fn(async (keys: number[]) => keys);
+    const batcher = new Batcher({ window: 1000, maxSize: 2 }, dispatch);
+
+    const first = Promise.all([batcher.load(1), batcher.load(2)]);
+    const second = batcher.load(3);
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(await first).toEqual([1, 2]);
+    expect(dispatch).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(await second).toBe(3);
+    expect(dispatch).toHaveBeenLastCalledWith([3]);
+  });
+
+  it("should reject every load of a batch whose dispatch fails", async () => {
+    const failure = new Error("boom");
+    const batcher = new Batcher({ window: 10, maxSize: 500 }, async () => {
+      throw failure;
+    });
+
+    const loads = [batcher.load(1), batcher.load(2)].map((load) =>
+      load.catch((error) => error)
+    );
+    await jest.advanceTimersByTimeAsync(10);
+
+    expect(await Promise.all(loads)).toEqual([failure, failure]);
+  });
+
+  it("should reject invalid options", () => {
+    expect(resolveBatchOptions({})).toEqual({ window: 10, maxSize: 500 });
+    expect(() => resolveBatchOptions({ window: -1 })).toThrow(
+      "Batch window must be a non-negative number"
+    );
+    expect(() => resolveBatchOptions({ maxSize: 501 })).toThrow(
+      "Batch maxSize must be an integer between 1 and 500"
+    );
+  });
+});
+
+describe("IPFlare batching", () => {
+  let geolocator: IPFlare;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedAxios.create.mockReturnValue(mockAxiosInstance);
+    geolocator = new IPFlare({ apiKey: "test-api-key", batch: { window: 5 } });
+  });
+
+  it("should send concurrent lookups as one bulk request", async () => {
+    mockAxiosInstance.post.mockResolvedValue({
+      data: {
+        results: [
+          { ip: "8.8.8.8", status: "success", data: geo("8.8.8.8") },
+          { ip: "10.0.0.1", status: "error", error_message: "reserved ip" },
+        ],
+      },
+    });
+
+    const [success, failure] = await Promise.all([
+      geolocator.lookup("8.8.8.8"),
+      geolocator.lookup("10.0.0.1"),
+    ]);
+
+    expect(mockAxiosInstance.get).not.toHaveBeenCalled();
+    expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+      "/bulk-lookup",
+      { ips: ["8.8.8.8", "10.0.0.1"] },
+      { params: {} }
+    );
+    expect(success).toEqual({ ok: true, data: geo("8.8.8.8") });
+    expect(failure).toEqual({
+      ok: false,
+      error: {
+        type: "RESERVED_IP_ADDRESS",
+        message: "reserved ip",
+        details: {
+          ip: "10.0.0.1",
+          status: "error",
+          error_message: "reserved ip",
+        },
+      },
+    });
+  });
+
+  it("should batch lookups separately by included fields", async () => {
+    mockAxiosInstance.post.mockImplementation(
+      async (_url: string, body: { ips: string[] }) => ({
+        data: {
+          results: body.ips.map((ip) => ({
+            ip,
+            status: "success",
+            data: geo(ip),
+          })),
+        },
+      })
+    );
+
+    await Promise.all([
+      geolocator.lookup("8.8.8.8"),
+      geolocator.lookup("1.1.1.1", { include: { asn: true } }),
+      geolocator.lookup("8.8.4.4"),
+    ]);
+
+    expect(mockAxiosInstance.post).toHaveBeenCalledTimes(2);
+    expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+      "/bulk-lookup",
+      { ips: ["8.8.8.8", "8.8.4.4"] },
+      { params: {} }
+    );
+    expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+      "/bulk-lookup",
+      { ips: ["1.1.1.1"] },
+      { params: { fields: "asn" } }
+    );
+  });
+
+  it("should give every caller the error when the bulk request fails", async () => {
+    const unauthorized = new Error("Unauthorized");
+    (unauthorized as any).response = { status: 401, data: {} };
+    mockedAxios.isAxiosError.mockReturnValue(true);
+    mockAxiosInstance.post.mockRejectedValue(unauthorized);
+
+    const results = await Promise.all([
+      geolocator.lookup("8.8.8.8"),
+      geolocator.lookup("1.1.1.1"),
+    ]);
+
+    for (const result of results) {
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.type).toBe("UNAUTHORIZED");
+      }
+    }
+  });
+
+  it("should give every caller UNKNOWN_ERROR when a backend throws", async () => {
+    const failure = new Error("boom");
+    const throwing = new IPFlare({
+      backend: {
+        lookup: async () => {
+          throw failure;
+        },
+      },
+      batch: {},
+    });
+
+    const results = await Promise.all([
+      throwing.lookup("8.8.8.8"),
+      throwing.lookup("1.1.1.1"),
+    ]);
+
+    expect(results).toEqual([
+      {
+        ok: false,
+        error: expect.objectContaining({
+          type: "UNKNOWN_ERROR",
+          message: "An unexpected error occurred",
+        }),
+      },
+      {
+        ok: false,
+        error: expect.objectContaining({
+          type: "UNKNOWN_ERROR",
+          message: "An unexpected error occurred",
+        }),
+      },
+    ]);
+  });
+
+  it("should match reordered bulk items to their callers", async () => {
+    mockAxiosInstance.post.mockResolvedValue({
+      data: {
+        results: [
+          { ip: "1.1.1.1", status: "success", data: geo("1.1.1.1") },
+          { ip: "8.8.8.8", status: "success", data: geo("8.8.8.8") },
+        ],
+      },
+    });
+
+    const results = await Promise.all([
+      geolocator.lookup("8.8.8.8"),
+      geolocator.lookup("1.1.1.1"),
+    ]);
+
+    expect(results).toEqual([
+      { ok: true, data: geo("8.8.8.8") },
+      { ok: true, data: geo("1.1.1.1") },
+    ]);
+  });
+
+  it("should report IPs missing from the bulk response", async () => {
+    mockAxiosInstance.post.mockResolvedValue({
+      data: {
+        results: [{ ip: "8.8.8.8", status: "success", data: geo("8.8.8.8") }],
+      },
+    });
+
+    const [, missing] = await Promise.all([
+      geolocator.lookup("8.8.8.8"),
+      geolocator.lookup("1.1.1.1"),
+    ]);
+
+    expect(missing).toEqual({
+      ok: false,
+      error: {
+        type: "INTERNAL_SERVER_ERROR",
+        message: "No result returned for 1.1.1.1",
+      },
+    });
+  });
+});
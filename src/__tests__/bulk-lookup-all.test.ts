@@ -0,0 +1,199 @@
+import axios from "axios";
+import { IPFlare } from "../index";
+
+// Mock axios
+jest.mock("axios", () => ({
+  create: jest.fn(() => ({
+    get: jest.fn(),
+    post: jest.fn(),
+  })),
+  isAxiosError: jest.fn(),
+}));
+
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+const mockAxiosInstance = {
+  get: jest.fn(),
+  post: jest.fn(),
+} as any;
+
+const makeIPs = (count: number) =>
+  Array.from(
+    { length: count },
+    (_, index) =>
+      `10.${Math.floor(index / 65536) % 256}.${Math.floor(index / 256) % 256}.${
+        index % 256
+      }`
+  );
+
+const echoResults = (_url: string, body: { ips: string[] }) =>
+  Promise.resolve({
+    data: {
+      results: body.ips.map((ip) => ({
+        ip,
+        status: "success",
+        data: { ip, in_eu: false, land_locked: false },
+      })),
+    },
+  });
+
+describe("IPFlare bulkLookupAll", () => {
+  let geolocator: IPFlare;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedAxios.create.mockReturnValue(mockAxiosInstance);
+    geolocator = new IPFlare({ apiKey: "test-api-key" });
+  });
+
+  it("should return error when IPs is not an array", async () => {
+    const result = await geolocator.bulkLookupAll({
+      ips: "1.1.1.1" as unknown as string[],
+    });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.type).toBe("INVALID_INPUT");
+      expect(result.error.message).toBe("IPs must be an array");
+    }
+  });
+
+  it("should return error when IPs array is empty", async () => {
+    const result = await geolocator.bulkLookupAll({ ips: [] });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.type).toBe("INVALID_INPUT");
+      expect(result.error.message).toBe("At least one IP address is required");
+    }
+  });
+
+  it("should return error for invalid concurrency", async () => {
+    const result = await geolocator.bulkLookupAll({
+      ips: ["1.1.1.1"],
+      concurrency: 0,
+    });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.type).toBe("INVALID_INPUT");
+      expect(result.error.message).toBe(
+        "Concurrency must be a positive integer"
+      );
+    }
+  });
+
+  it("should reject the whole run when any IP is invalid", async () => {
+    const result = await geolocator.bulkLookupAll({
+      ips: [...makeIPs(600), "not_an_ip"],
+    });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.type).toBe("INVALID_IP_ADDRESS");
+      expect(result.error.message).toBe(
+        "Invalid IP addresses found: not_an_ip"
+      );
+    }
+    expect(mockAxiosInstance.post).not.toHaveBeenCalled();
+  });
+
+  it("should split IPs into requests of 500 and keep input order", async () => {
+    const ips = makeIPs(1201);
+    mockAxiosInstance.post.mockImplementation(echoResults);
+
+    const result = await geolocator.bulkLookupAll({
+      ips,
+      include: { asn: true },
+    });
+
+    expect(mockAxiosInstance.post).toHaveBeenCalledTimes(3);
+    expect(
+      mockAxiosInstance.post.mock.calls.map((c: any) => c[1].ips.length)
+    ).toEqual([500, 500, 201]);
+    expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+      "/bulk-lookup",
+      { ips: ips.slice(1000) },
+      { params: { fields: "asn" } }
+    );
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.data.results.map((item) => item.ip)).toEqual(ips);
+      expect(result.data.failedChunks).toEqual([]);
+    }
+  });
+
+  it("should limit the number of requests in flight", async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    mockAxiosInstance.post.mockImplementation(
+      async (url: string, body: { ips: string[] }) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        inFlight--;
+        return echoResults(url, body);
+      }
+    );
+
+    const result = await geolocator.bulkLookupAll({
+      ips: makeIPs(2500),
+      concurrency: 2,
+    });
+
+    expect(result.ok).toBe(true);
+    expect(mockAxiosInstance.post).toHaveBeenCalledTimes(5);
+    expect(maxInFlight).toBe(2);
+  });
+
+  it("should report failed chunks without failing the run", async () => {
+    const ips = makeIPs(1000);
+    const serverError = new Error("Server error");
+    (serverError as any).response = { status: 500, data: {} };
+    mockedAxios.isAxiosError.mockReturnValue(true);
+    mockAxiosInstance.post
+      .mockImplementationOnce(echoResults)
+      .mockRejectedValueOnce(serverError);
+
+    const result = await geolocator.bulkLookupAll({ ips, concurrency: 1 });
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.data.results).toHaveLength(1000);
+      expect(result.data.results[0].status).toBe("success");
+      expect(result.data.results[500]).toEqual({
+        ip: ips[500],
+        status: "error",
+        error_message: "Internal server error",
+      });
+      expect(result.data.failedChunks).toEqual([
+        {
+          index: 1,
+          ips: ips.slice(500),
+          error: {
+            type: "INTERNAL_SERVER_ERROR",
+            message: "Internal server error",
+            details: {},
+          },
+        },
+      ]);
+    }
+  });
+
+  it("should return error when every chunk fails", async () => {
+    const unauthorized = new Error("Unauthorized");
+    (unauthorized as any).response = { status: 401, data: {} };
+    mockedAxios.isAxiosError.mockReturnValue(true);
+    mockAxiosInstance.post.mockRejectedValue(unauthorized);
+
+    const result = await geolocator.bulkLookupAll({ ips: makeIPs(700) });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.type).toBe("UNAUTHORIZED");
+      expect(result.error.message).toBe("Invalid API key");
+      expect(
+        (result.error.details as { failedChunks: unknown[] }).failedChunks
+      ).toHaveLength(2);
+    }
+  });
+});
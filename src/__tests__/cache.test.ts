@@ -0,0 +1,445 @@
+import axios from "axios";
+import {
+  IPFlare,
+  LRUCache,
+  MemoryCacheStore,
+  type CacheRecord,
+  type CacheStore,
+  type IPGeolocationResponse,
+} from "../index";
+
+// Mock axios
+jest.mock("axios", () => ({
+  create: jest.fn(() => ({
+    get: jest.fn(),
+    post: jest.fn(),
+  })),
+  isAxiosError: jest.fn(),
+}));
+
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+const mockAxiosInstance = {
+  get: jest.fn(),
+  post: jest.fn(),
+} as any;
+
+const geo = (ip: string): IPGeolocationResponse => ({
+  ip,
+  country_code: "US",
+  in_eu: false,
+  land_locked: false,
+});
+
+describe("LRUCache", () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should return stored values", () => {
+    const cache = new LRUCache<number>();
+    cache.set("a", 1);
+
+    expect(cache.get("a")).toBe(1);
+    expect(cache.get("b")).toBeUndefined();
+  });
+
+  it("should evict the least recently used entry when full", () => {
+    const cache = new LRUCache<number>({ maxEntries: 2 });
+    cache.set("a", 1);
+    cache.set("b", 2);
+    cache.get("a");
+    cache.set("c", 3);
+
+    expect(cache.get("a")).toBe(1);
+    expect(cache.get("b")).toBeUndefined();
+    expect(cache.get("c")).toBe(3);
+    expect(cache.size).toBe(2);
+  });
+
+  it("should expire entries after the ttl", () => {
+    jest.useFakeTimers();
+    const cache = new LRUCache<number>({ ttl: 1000 });
+    cache.set("a", 1);
+
+    jest.advanceTimersByTime(999);
+    expect(cache.get("a")).toBe(1);
+
+    jest.advanceTimersByTime(1);
+    expect(cache.get("a")).toBeUndefined();
+    expect(cache.size).toBe(0);
+  });
+
+  it("should delete and clear entries", () => {
+    const cache = new LRUCache<number>();
+    cache.set("a", 1);
+    cache.set("b", 2);
+
+    cache.delete("a");
+    expect(cache.get("a")).toBeUndefined();
+
+    cache.clear();
+    expect(cache.size).toBe(0);
+  });
+
+  it("should reject invalid options", () => {
+    expect(() => new LRUCache({ maxEntries: 0 })).toThrow(
+      "Cache maxEntries must be a positive integer"
+    );
+    expect(() => new LRUCache({ ttl: -1 })).toThrow(
+      "Cache ttl must be a positive number"
+    );
+  });
+});
+
+describe("MemoryCacheStore", () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should get, set and delete values with a per-entry ttl", async () => {
+    jest.useFakeTimers();
+    const store = new MemoryCacheStore<number>();
+    await store.set("a", 1, 1000);
+    await store.set("b", 2, 5000);
+
+    expect(await store.get("a")).toBe(1);
+
+    jest.advanceTimersByTime(1000);
+    expect(await store.get("a")).toBeUndefined();
+    expect(await store.get("b")).toBe(2);
+
+    await store.delete("b");
+    expect(await store.get("b")).toBeUndefined();
+  });
+});
+
+const flushPromises = () => new Promise((resolve) => setImmediate(resolve));
+
+describe("IPFlare cache", () => {
+  let geolocator: IPFlare;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedAxios.create.mockReturnValue(mockAxiosInstance);
+    geolocator = new IPFlare({ apiKey: "test-api-key", cache: {} });
+  });
+
+  describe("lookup", () => {
+    it("should serve repeated lookups from the cache", async () => {
+      mockAxiosInstance.get.mockResolvedValue({ data: geo("8.8.8.8") });
+
+      const first = await geolocator.lookup("8.8.8.8");
+      const second = await geolocator.lookup(" 8.8.8.8 ");
+
+      expect(first).toEqual({ ok: true, data: geo("8.8.8.8") });
+      expect(second).toEqual(first);
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(1);
+    });
+
+    it("should key entries by included fields", async () => {
+      mockAxiosInstance.get.mockResolvedValue({ data: geo("8.8.8.8") });
+
+      await geolocator.lookup("8.8.8.8");
+      await geolocator.lookup("8.8.8.8", { include: { asn: true } });
+      await geolocator.lookup("8.8.8.8", { include: { asn: true } });
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not cache errors", async () => {
+      mockAxiosInstance.get.mockRejectedValueOnce(new Error("boom"));
+      mockAxiosInstance.get.mockResolvedValueOnce({ data: geo("8.8.8.8") });
+      mockedAxios.isAxiosError.mockReturnValue(false);
+
+      const first = await geolocator.lookup("8.8.8.8");
+      const second = await geolocator.lookup("8.8.8.8");
+
+      expect(first.ok).toBe(false);
+      expect(second.ok).toBe(true);
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not cache when the option is omitted", async () => {
+      const uncached = new IPFlare({ apiKey: "test-api-key" });
+      mockAxiosInstance.get.mockResolvedValue({ data: geo("8.8.8.8") });
+
+      await uncached.lookup("8.8.8.8");
+      await uncached.lookup("8.8.8.8");
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("bulkLookup", () => {
+    it("should only request cache misses and keep input order", async () => {
+      mockAxiosInstance.get.mockResolvedValue({ data: geo("1.1.1.1") });
+      await geolocator.lookup("1.1.1.1");
+
+      mockAxiosInstance.post.mockResolvedValue({
+        data: {
+          results: [
+            { ip: "8.8.8.8", status: "success", data: geo("8.8.8.8") },
+            { ip: "10.0.0.1", status: "error", error_message: "reserved" },
+          ],
+        },
+      });
+
+      const result = await geolocator.bulkLookup({
+        ips: ["8.8.8.8", "1.1.1.1", "10.0.0.1"],
+      });
+
+      expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+        "/bulk-lookup",
+        { ips: ["8.8.8.8", "10.0.0.1"] },
+        { params: {} }
+      );
+      expect(result).toEqual({
+        ok: true,
+        data: [
+          { ip: "8.8.8.8", status: "success", data: geo("8.8.8.8") },
+          { ip: "1.1.1.1", status: "success", data: geo("1.1.1.1") },
+          { ip: "10.0.0.1", status: "error", error_message: "reserved" },
+        ],
+      });
+    });
+
+    it("should match reordered and missing items by IP", async () => {
+      mockAxiosInstance.post.mockResolvedValue({
+        data: {
+          results: [{ ip: "8.8.8.8", status: "success", data: geo("8.8.8.8") }],
+        },
+      });
+
+      const result = await geolocator.bulkLookup({
+        ips: ["1.1.1.1", "8.8.8.8"],
+      });
+
+      expect(result).toEqual({
+        ok: true,
+        data: [
+          {
+            ip: "1.1.1.1",
+            status: "error",
+            error_message: "No result returned for 1.1.1.1",
+          },
+          { ip: "8.8.8.8", status: "success", data: geo("8.8.8.8") },
+        ],
+      });
+
+      mockAxiosInstance.get.mockResolvedValue({ data: geo("1.1.1.1") });
+      expect(await geolocator.lookup("8.8.8.8")).toEqual({
+        ok: true,
+        data: geo("8.8.8.8"),
+      });
+      expect(await geolocator.lookup("1.1.1.1")).toEqual({
+        ok: true,
+        data: geo("1.1.1.1"),
+      });
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not cache items returned for another IP", async () => {
+      mockAxiosInstance.post.mockResolvedValue({
+        data: {
+          results: [{ ip: "9.9.9.9", status: "success", data: geo("9.9.9.9") }],
+        },
+      });
+      await geolocator.bulkLookup({ ips: ["8.8.8.8"] });
+
+      mockAxiosInstance.get.mockResolvedValue({ data: geo("8.8.8.8") });
+      expect(await geolocator.lookup("8.8.8.8")).toEqual({
+        ok: true,
+        data: geo("8.8.8.8"),
+      });
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(1);
+    });
+
+    it("should skip the request when every IP is cached", async () => {
+      mockAxiosInstance.post.mockResolvedValue({
+        data: {
+          results: [{ ip: "8.8.8.8", status: "success", data: geo("8.8.8.8") }],
+        },
+      });
+      await geolocator.bulkLookup({ ips: ["8.8.8.8"] });
+
+      mockAxiosInstance.post.mockClear();
+      mockAxiosInstance.get.mockClear();
+      const bulk = await geolocator.bulkLookup({ ips: ["8.8.8.8"] });
+      const single = await geolocator.lookup("8.8.8.8");
+
+      expect(bulk).toEqual({
+        ok: true,
+        data: [{ ip: "8.8.8.8", status: "success", data: geo("8.8.8.8") }],
+      });
+      expect(single).toEqual({ ok: true, data: geo("8.8.8.8") });
+      expect(mockAxiosInstance.post).not.toHaveBeenCalled();
+      expect(mockAxiosInstance.get).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("custom store", () => {
+    const createStore = () => {
+      const entries = new Map<string, CacheRecord<IPGeolocationResponse>>();
+      const store: jest.Mocked<CacheStore<CacheRecord<IPGeolocationResponse>>> =
+        {
+          get: jest.fn(async (key: string) => entries.get(key)),
+          set: jest.fn(async (key, value, _ttl) => {
+            entries.set(key, value);
+          }),
+          delete: jest.fn(async (key: string) => {
+            entries.delete(key);
+          }),
+        };
+      return store;
+    };
+
+    it("should read and write entries through the store", async () => {
+      const store = createStore();
+      const client = new IPFlare({
+        apiKey: "test-api-key",
+        cache: { store, ttl: 1000, staleWhileRevalidate: 500 },
+      });
+      mockAxiosInstance.get.mockResolvedValue({ data: geo("8.8.8.8") });
+
+      await client.lookup("8.8.8.8");
+      const result = await client.lookup("8.8.8.8");
+
+      expect(result).toEqual({ ok: true, data: geo("8.8.8.8") });
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(1);
+      expect(store.set).toHaveBeenCalledWith(
+        "8.8.8.8|",
+        { value: geo("8.8.8.8"), storedAt: expect.any(Number) },
+        1500
+      );
+    });
+
+    it("should fall back to the API when the store fails", async () => {
+      const store = createStore();
+      store.get.mockRejectedValue(new Error("connection refused"));
+      store.set.mockRejectedValue(new Error("connection refused"));
+      const client = new IPFlare({ apiKey: "test-api-key", cache: { store } });
+      mockAxiosInstance.get.mockResolvedValue({ data: geo("8.8.8.8") });
+
+      const result = await client.lookup("8.8.8.8");
+
+      expect(result).toEqual({ ok: true, data: geo("8.8.8.8") });
+    });
+
+    it("should reject invalid options", () => {
+      expect(
+        () => new IPFlare({ apiKey: "test-api-key", cache: { ttl: 0 } })
+      ).toThrow("Cache ttl must be a positive number");
+      expect(
+        () =>
+          new IPFlare({
+            apiKey: "test-api-key",
+            cache: { staleWhileRevalidate: -1 },
+          })
+      ).toThrow("Cache staleWhileRevalidate must be a non-negative number");
+    });
+  });
+
+  describe("stale-while-revalidate", () => {
+    let client: IPFlare;
+    let now: number;
+
+    beforeEach(() => {
+      now = 0;
+      jest.spyOn(Date, "now").mockImplementation(() => now);
+      client = new IPFlare({
+        apiKey: "test-api-key",
+        cache: { ttl: 1000, staleWhileRevalidate: 1000 },
+      });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it("should serve a stale entry and refresh it in the background", async () => {
+      mockAxiosInstance.get.mockResolvedValueOnce({ data: geo("8.8.8.8") });
+      await client.lookup("8.8.8.8");
+
+      now = 1500;
+      const refreshed = { ...geo("8.8.8.8"), country_code: "GB" };
+      mockAxiosInstance.get.mockResolvedValueOnce({ data: refreshed });
+
+      const stale = await client.lookup("8.8.8.8");
+      const concurrent = await client.lookup("8.8.8.8");
+      expect(stale).toEqual({ ok: true, data: geo("8.8.8.8") });
+      expect(concurrent).toEqual(stale);
+
+      await flushPromises();
+      const fresh = await client.lookup("8.8.8.8");
+
+      expect(fresh).toEqual({ ok: true, data: refreshed });
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(2);
+    });
+
+    it("should keep the stale entry when the refresh fails", async () => {
+      mockAxiosInstance.get.mockResolvedValueOnce({ data: geo("8.8.8.8") });
+      await client.lookup("8.8.8.8");
+
+      now = 1500;
+      mockAxiosInstance.get.mockRejectedValueOnce(new Error("boom"));
+      mockedAxios.isAxiosError.mockReturnValue(false);
+
+      await client.lookup("8.8.8.8");
+      await flushPromises();
+      const result = await client.lookup("8.8.8.8");
+
+      expect(result).toEqual({ ok: true, data: geo("8.8.8.8") });
+    });
+
+    it("should refetch once the stale window has passed", async () => {
+      mockAxiosInstance.get.mockResolvedValue({ data: geo("8.8.8.8") });
+      await client.lookup("8.8.8.8");
+
+      now = 2000;
+      await client.lookup("8.8.8.8");
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(2);
+    });
+
+    it("should refresh stale bulk entries with one bulk request", async () => {
+      mockAxiosInstance.post.mockResolvedValueOnce({
+        data: {
+          results: [
+            { ip: "8.8.8.8", status: "success", data: geo("8.8.8.8") },
+            { ip: "1.1.1.1", status: "success", data: geo("1.1.1.1") },
+          ],
+        },
+      });
+      await client.bulkLookup({ ips: ["8.8.8.8", "1.1.1.1"] });
+
+      now = 1500;
+      const refreshed = { ...geo("1.1.1.1"), country_code: "AU" };
+      mockAxiosInstance.post.mockResolvedValueOnce({
+        data: {
+          results: [
+            { ip: "8.8.8.8", status: "success", data: geo("8.8.8.8") },
+            { ip: "1.1.1.1", status: "success", data: refreshed },
+          ],
+        },
+      });
+
+      const stale = await client.bulkLookup({ ips: ["8.8.8.8", "1.1.1.1"] });
+      expect(stale.ok && stale.data[1]).toEqual({
+        ip: "1.1.1.1",
+        status: "success",
+        data: geo("1.1.1.1"),
+      });
+
+      await flushPromises();
+      const fresh = await client.lookup("1.1.1.1");
+
+      expect(fresh).toEqual({ ok: true, data: refreshed });
+      expect(mockAxiosInstance.post).toHaveBeenCalledTimes(2);
+      expect(mockAxiosInstance.post).toHaveBeenLastCalledWith(
+        "/bulk-lookup",
+        { ips: ["8.8.8.8", "1.1.1.1"] },
+        { params: {} }
+      );
+    });
+  });
+});
@@ -0,0 +1,162 @@
+import axios from "axios";
+import { IPFlare, classifyIP, isReservedIP, type IPScope } from "../index";
+
+// Mock axios
+jest.mock("axios", () => ({
+  create: jest.fn(() => ({
+    get: jest.fn(),
+    post: jest.fn(),
+  })),
+  isAxiosError: jest.fn(),
+}));
+
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+const mockAxiosInstance = {
+  get: jest.fn(),
+  post: jest.fn(),
+} as any;
+
+describe("classifyIP", () => {
+  const cases: [string, IPScope][] = [
+    ["8.8.8.8", "public"],
+    ["0.0.0.0", "unspecified"],
+    ["0.1.2.3", "unspecified"],
+    ["10.20.30.40", "private"],
+    ["172.16.0.1", "private"],
+    ["172.31.255.255", "private"],
+    ["172.32.0.1", "public"],
+    ["192.168.1.1", "private"],
+    ["100.64.0.1", "shared"],
+    ["100.127.255.255", "shared"],
+    ["100.128.0.1", "public"],
+    ["127.0.0.1", "loopback"],
+    ["169.254.169.254", "link-local"],
+    ["192.0.0.8", "protocol-assignment"],
+    ["192.0.2.1", "documentation"],
+    ["198.51.100.7", "documentation"],
+    ["203.0.113.9", "documentation"],
+    ["192.88.99.1", "reserved"],
+    ["198.18.0.1", "benchmarking"],
+    ["198.19.255.255", "benchmarking"],
+    ["224.0.0.251", "multicast"],
+    ["239.255.255.250", "multicast"],
+    ["240.0.0.1", "reserved"],
+    ["255.255.255.255", "broadcast"],
+    ["2001:4860:4860::8888", "public"],
+    ["::", "unspecified"],
+    ["::1", "loopback"],
+    ["::ffff:192.168.0.1", "private"],
+    ["::ffff:8.8.8.8", "public"],
+    ["64:ff9b:1::1", "private"],
+    ["100::1", "reserved"],
+    ["2001:2::1", "benchmarking"],
+    ["2001:db8::1", "documentation"],
+    ["2001:0:4136:e378::1", "protocol-assignment"],
+    ["3fff::1", "documentation"],
+    ["5f00::1", "reserved"],
+    ["fd12:3456:789a::1", "unique-local"],
+    ["fe80::1%eth0", "link-local"],
+    ["FF02::1", "multicast"],
+  ];
+
+  it.each(cases)("should classify %s as %s", (ip, scope) => {
+    expect(classifyIP(ip)).toBe(scope);
+  });
+
+  it("should return undefined for invalid IPs", () => {
+    expect(classifyIP("not-an-ip")).toBeUndefined();
+    expect(classifyIP("256.0.0.1")).toBeUndefined();
+  });
+
+  it("should report reserved addresses", () => {
+    expect(isReservedIP("10.0.0.1")).toBe(true);
+    expect(isReservedIP("8.8.8.8")).toBe(false);
+    expect(isReservedIP("bogus")).toBe(false);
+  });
+});
+
+describe("IPFlare reserved IP handling", () => {
+  const geo = (ip: string) => ({ ip, in_eu: false, land_locked: false });
+  let geolocator: IPFlare;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedAxios.create.mockReturnValue(mockAxiosInstance);
+    geolocator = new IPFlare({
+      apiKey: "test-api-key",
+      rejectReservedIPs: true,
+    });
+  });
+
+  it("should answer reserved lookups without a request", async () => {
+    const result = await geolocator.lookup("192.168.1.1");
+
+    expect(result).toEqual({
+      ok: false,
+      error: {
+        type: "RESERVED_IP_ADDRESS",
+        message: "192.168.1.1 is a reserved IP address (private)",
+        details: { scope: "private" },
+      },
+    });
+    expect(mockAxiosInstance.get).not.toHaveBeenCalled();
+  });
+
+  it("should still look up public addresses", async () => {
+    mockAxiosInstance.get.mockResolvedValue({ data: geo("8.8.8.8") });
+
+    const result = await geolocator.lookup("8.8.8.8");
+
+    expect(result).toEqual({ ok: true, data: geo("8.8.8.8") });
+  });
+
+  it("should only send public addresses in bulk lookups", async () => {
+    mockAxiosInstance.post.mockResolvedValue({
+      data: {
+        results: [{ ip: "8.8.8.8", status: "success", data: geo("8.8.8.8") }],
+      },
+    });
+
+    const result = await geolocator.bulkLookup({
+      ips: ["::1", "8.8.8.8", "100.64.1.1"],
+    });
+
+    expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+      "/bulk-lookup",
+      { ips: ["8.8.8.8"] },
+      { params: {} }
+    );
+    expect(result).toEqual({
+      ok: true,
+      data: [
+        {
+          ip: "::1",
+          status: "error",
+          error_message: "::1 is a reserved IP address (loopback)",
+        },
+        { ip: "8.8.8.8", status: "success", data: geo("8.8.8.8") },
+        {
+          ip: "100.64.1.1",
+          status: "error",
+          error_message: "100.64.1.1 is a reserved IP address (shared)",
+        },
+      ],
+    });
+  });
+
+  it("should skip the request when every bulk IP is reserved", async () => {
+    const result = await geolocator.bulkLookup({ ips: ["10.0.0.1"] });
+
+    expect(result.ok).toBe(true);
+    expect(mockAxiosInstance.post).not.toHaveBeenCalled();
+  });
+
+  it("should send reserved addresses to the API by default", async () => {
+    const client = new IPFlare({ apiKey: "test-api-key" });
+    mockAxiosInstance.get.mockResolvedValue({ data: geo("10.0.0.1") });
+
+    await client.lookup("10.0.0.1");
+
+    expect(mockAxiosInstance.get).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,380 @@
+import { promises as fs } from "fs";
+import { type AddressInfo } from "net";
+import { type Server, createServer } from "http";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Readable } from "stream";
+import { run } from "../cli";
+
+const geo = (ip: string) => ({
+  ip,
+  city: "Mountain View",
+  country_code: "US",
+  in_eu: false,
+  land_locked: false,
+});
+
+interface Output {
+  code: number;
+  stdout: string;
+  stderr: string;
+}
+
+describe("ipflare CLI", () => {
+  let server: Server;
+  let baseURL: string;
+  const requests: { method?: string; url?: string; apiKey?: unknown }[] = [];
+
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      let body = "";
+      request.on("data", (chunk) => (body += chunk));
+      request.on("end", () => {
+        requests.push({
+          method: request.method,
+          url: request.url,
+          apiKey: request.headers["x-api-key"],
+        });
+        const reply = (status: number, data: unknown) => {
+          response.writeHead(status, { "Content-Type": "application/json" });
+          response.end(JSON.stringify(data));
+        };
+
+        if (request.headers["x-api-key"] !== "good-key") {
+          return reply(401, { error: "Invalid API key" });
+        }
+        if (request.method === "POST") {
+          const { ips } = JSON.parse(body) as { ips: string[] };
+          return reply(200, {
+            results: ips.map((ip) =>
+              ip === "9.9.9.9"
+                ? {
+                    ip,
+                    status: "error",
+                    error_message: "Geolocation not found",
+                  }
+                : { ip, status: "success", data: geo(ip) }
+            ),
+          });
+        }
+
+        const ip = decodeURIComponent((request.url ?? "").split("?")[0]).slice(
+          1
+        );
+        if (ip === "9.9.9.9") {
+          return reply(404, { error: "Geolocation not found" });
+        }
+        reply(200, geo(ip));
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve)
+    );
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+  });
+
+  async function cli(
+    argv: string[],
+    options: { env?: Record<string, string>; stdin?: string } = {}
+  ): Promise<Output> {
+    let stdout = "";
+    let stderr = "";
+    const code = await run(argv, {
+      stdout: { write: (text: string) => (stdout += text) },
+      stderr: { write: (text: string) => (stderr += text) },
+      stdin: Readable.from([Buffer.from(options.stdin ?? "")]),
+      env: options.env ?? { IPFLARE_API_KEY: "good-key" },
+    });
+    return { code, stdout, stderr };
+  }
+
+  it("should look up an IP as JSON", async () => {
+    const output = await cli(["lookup", "8.8.8.8", "--base-url", baseURL]);
+
+    expect(output.code).toBe(0);
+    expect(JSON.parse(output.stdout)).toEqual(geo("8.8.8.8"));
+    expect(requests).toEqual([
+      { method: "GET", url: "/8.8.8.8", apiKey: "good-key" },
+    ]);
+  });
+
+  it("should map --asn and --isp to include fields", async () => {
+    await cli(["lookup", "8.8.8.8", "--asn", "--isp", `--base-url=${baseURL}`]);
+
+    expect(requests[0].url).toBe("/8.8.8.8?fields=asn,isp");
+  });
+
+  it("should prefer the --api-key flag over the environment", async () => {
+    const output = await cli(
+      ["lookup", "8.8.8.8", "--api-key", "good-key", "--base-url", baseURL],
+      { env: { IPFLARE_API_KEY: "bad-key" } }
+    );
+
+    expect(output.code).toBe(0);
+  });
+
+  it("should print a single lookup as a table", async () => {
+    const output = await cli([
+      "lookup",
+      "8.8.8.8",
+      "--format",
+      "table",
+      "--base-url",
+      baseURL,
+    ]);
+
+    expect(output.stdout).toBe(
+      [
+        "ip            8.8.8.8",
+        "city          Mountain View",
+        "country_code  US",
+        "in_eu         false",
+        "land_locked   false",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("should print a single lookup as CSV and NDJSON", async () => {
+    const csv = await cli([
+      "lookup",
+      "8.8.8.8",
+      "--format",
+      "csv",
+      "--base-url",
+      baseURL,
+    ]);
+    const ndjson = await cli([
+      "lookup",
+      "8.8.8.8",
+      "--format",
+      "ndjson",
+      "--base-url",
+      baseURL,
+    ]);
+
+    expect(csv.stdout).toBe(
+      "ip,city,country_code,in_eu,land_locked\n8.8.8.8,Mountain View,US,false,false\n"
+    );
+    expect(ndjson.stdout).toBe(`${JSON.stringify(geo("8.8.8.8"))}\n`);
+  });
+
+  it("should look up IPs from a file", async () => {
+    const file = join(tmpdir(), `ipflare-cli-${process.pid}.txt`);
+    await fs.writeFile(file, "8.8.8.8\n\n9.9.9.9\n");
+
+    try {
+      const output = await cli([
+        "bulk",
+        file,
+        "--format",
+        "table",
+        "--base-url",
+        baseURL,
+      ]);
+
+      expect(output.code).toBe(0);
+      expect(output.stdout).toBe(
+        [
+          "ip       status   country_code  city           error_message",
+          "8.8.8.8  success  US            Mountain View",
+          "9.9.9.9  error                                 Geolocation not found",
+          "",
+        ].join("\n")
+      );
+    } finally {
+      await fs.unlink(file);
+    }
+  });
+
+  it("should read bulk IPs from stdin", async () => {
+    const output = await cli(
+      ["bulk", "-", "--format", "ndjson", "--base-url", baseURL],
+      {
+        env: { IPFLARE_API_KEY: "good-key" },
+        stdin: "1.1.1.1\r\n8.8.8.8\n",
+      }
+    );
+
+    expect(output.code).toBe(0);
+    expect(
+      output.stdout
+        .trim()
+        .split("\n")
+        .map((line) => JSON.parse(line))
+    ).toEqual([
+      { ip: "1.1.1.1", status: "success", data: geo("1.1.1.1") },
+      { ip: "8.8.8.8", status: "success", data: geo("8.8.8.8") },
+    ]);
+  });
+
+  it("should print bulk results as CSV", async () => {
+    const output = await cli(
+      ["bulk", "-", "--format", "csv", "--base-url", baseURL],
+      {
+        env: { IPFLARE_API_KEY: "good-key" },
+        stdin: "9.9.9.9\n8.8.8.8\n",
+      }
+    );
+
+    expect(output.stdout).toBe(
+      [
+        "ip,status,error_message,city,country_code,in_eu,land_locked",
+        "9.9.9.9,error,Geolocation not found,,,,",
+        "8.8.8.8,success,,Mountain View,US,false,false",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("should print bulk results as JSON", async () => {
+    const output = await cli(["bulk", "-", "--base-url", baseURL], {
+      env: { IPFLARE_API_KEY: "good-key" },
+      stdin: "8.8.8.8",
+    });
+
+    expect(JSON.parse(output.stdout)).toEqual([
+      { ip: "8.8.8.8", status: "success", data: geo("8.8.8.8") },
+    ]);
+  });
+
+  it("should look up valid lines and report invalid ones as error rows", async () => {
+    const output = await cli(
+      ["bulk", "-", "--format", "csv", "--base-url", baseURL],
+      { stdin: "ip_address\n8.8.8.8\n" }
+    );
+
+    expect(output.code).toBe(3);
+    expect(output.stdout).toBe(
+      [
+        "ip,status,error_message,city,country_code,in_eu,land_locked",
+        "ip_address,error,Invalid IP address format: ip_address,,,,",
+        "8.8.8.8,success,,Mountain View,US,false,false",
+        "",
+      ].join("\n")
+    );
+    expect(output.stderr).toBe(
+      "Error: Invalid IP address format: ip_address\n"
+    );
+    expect(requests).toHaveLength(1);
+  });
+
+  it("should exit with the code of the most severe bulk error", async () => {
+    const output = await cli(
+      ["bulk", "-", "--format", "ndjson", "--base-url", baseURL],
+      { env: { IPFLARE_API_KEY: "bad-key" }, stdin: "bogus\n8.8.8.8\n" }
+    );
+
+    expect(output.code).toBe(6);
+    expect(output.stdout.trim().split("\n")).toHaveLength(2);
+    expect(output.stderr).toBe("Error: Invalid API key\n");
+  });
+
+  it("should report unreadable files", async () => {
+    const output = await cli([
+      "bulk",
+      "/nonexistent/ips.txt",
+      "--base-url",
+      baseURL,
+    ]);
+
+    expect(output.code).toBe(2);
+    expect(output.stderr).toContain("Could not read /nonexistent/ips.txt");
+  });
+
+  it("should validate IPs without an API key", async () => {
+    const output = await cli(["validate", "2001:DB8::0001"], { env: {} });
+
+    expect(output.code).toBe(0);
+    expect(JSON.parse(output.stdout)).toEqual({
+      input: "2001:DB8::0001",
+      ip: "2001:db8::1",
+      family: 6,
+      scope: "documentation",
+    });
+    expect(requests).toHaveLength(0);
+  });
+
+  it.each([
+    [["validate", "999.1.1.1"], 3, "Invalid IP address format: 999.1.1.1"],
+    [["lookup", "bogus"], 3, "Invalid IP address format: bogus"],
+    [["lookup", "9.9.9.9"], 5, "Geolocation not found"],
+  ])(
+    "should exit with the error type's code for %p",
+    async (argv, code, message) => {
+      const output = await cli([...argv, "--base-url", baseURL]);
+
+      expect(output.code).toBe(code);
+      expect(output.stderr).toBe(`Error: ${message}\n`);
+      expect(output.stdout).toBe("");
+    }
+  );
+
+  it("should exit with UNAUTHORIZED for a bad key", async () => {
+    const output = await cli(["lookup", "8.8.8.8", "--base-url", baseURL], {
+      env: { IPFLARE_API_KEY: "bad-key" },
+    });
+
+    expect(output.code).toBe(6);
+    expect(output.stderr).toBe("Error: Invalid API key\n");
+  });
+
+  it("should require an API key for lookups", async () => {
+    const output = await cli(["lookup", "8.8.8.8"], { env: {} });
+
+    expect(output.code).toBe(6);
+    expect(output.stderr).toContain("IPFLARE_API_KEY");
+  });
+
+  it("should treat a blank API key as missing", async () => {
+    const output = await cli(["lookup", "8.8.8.8"], {
+      env: { IPFLARE_API_KEY: "   " },
+    });
+
+    expect(output.code).toBe(6);
+    expect(output.stderr).toBe(
+      "Error: Provide an API key with --api-key or IPFLARE_API_KEY\n"
+    );
+  });
+
+  it("should exit with NETWORK_ERROR when the API is unreachable", async () => {
+    const output = await cli([
+      "lookup",
+      "8.8.8.8",
+      "--base-url",
+      "http://127.0.0.1:1",
+    ]);
+
+    expect(output.code).toBe(8);
+  });
+
+  it("should print help", async () => {
+    const output = await cli(["--help"]);
+
+    expect(output.code).toBe(0);
+    expect(output.stdout).toContain("Usage: ipflare <command> [options]");
+  });
+
+  it.each([
+    [[], "Missing command"],
+    [["geolocate", "8.8.8.8"], "Unknown command: geolocate"],
+    [["lookup"], "lookup takes exactly one argument"],
+    [["lookup", "8.8.8.8", "--format", "xml"], "Invalid format: xml"],
+    [["lookup", "8.8.8.8", "--verbose"], "Unknown option: --verbose"],
+    [["lookup", "8.8.8.8", "--api-key"], "Missing value for --api-key"],
+  ])("should reject usage errors %p", async (argv, message) => {
+    const output = await cli(argv);
+
+    expect(output.code).toBe(2);
+    expect(output.stderr).toContain(message);
+    expect(output.stderr).toContain("Usage:");
+  });
+});
@@ -0,0 +1,206 @@
+import { getClientIP } from "../index";
+
+describe("getClientIP", () => {
+  const trustedProxies = ["10.0.0.0/8", "2001:db8:ffff::/48", "192.0.2.1"];
+  const forwardedOptions = { trustedProxies, header: "Forwarded" };
+
+  it("should return the remote address when no proxy is trusted", () => {
+    expect(
+      getClientIP({ "x-forwarded-for": "203.0.113.9" }, "198.51.100.7")
+    ).toEqual({ ok: true, data: "198.51.100.7" });
+  });
+
+  it("should ignore headers from untrusted peers", () => {
+    expect(
+      getClientIP(
+        { "x-forwarded-for": "203.0.113.9", "x-real-ip": "203.0.113.9" },
+        "198.51.100.7",
+        { trustedProxies }
+      )
+    ).toEqual({ ok: true, data: "198.51.100.7" });
+  });
+
+  it("should normalize the remote address", () => {
+    expect(getClientIP({}, "::ffff:198.51.100.7", { trustedProxies })).toEqual({
+      ok: true,
+      data: "198.51.100.7",
+    });
+  });
+
+  it("should walk X-Forwarded-For right to left past trusted proxies", () => {
+    const headers = {
+      "x-forwarded-for": "1.1.1.1, 203.0.113.9, 10.1.2.3, 10.4.5.6",
+    };
+
+    expect(getClientIP(headers, "10.0.0.1", { trustedProxies })).toEqual({
+      ok: true,
+      data: "203.0.113.9",
+    });
+  });
+
+  it("should return the leftmost entry when every hop is trusted", () => {
+    expect(
+      getClientIP({ "x-forwarded-for": "10.9.9.9, 10.1.1.1" }, "10.0.0.1", {
+        trustedProxies,
+      })
+    ).toEqual({ ok: true, data: "10.9.9.9" });
+  });
+
+  it("should accept IPv6 entries and ports in X-Forwarded-For", () => {
+    const headers = {
+      "x-forwarded-for": "[2001:DB8:0:1::7]:4711, 2001:db8:ffff::2",
+    };
+
+    expect(
+      getClientIP(headers, "2001:db8:ffff::1", { trustedProxies })
+    ).toEqual({ ok: true, data: "2001:db8:0:1::7" });
+  });
+
+  it("should join repeated header lines", () => {
+    const headers = { "x-forwarded-for": ["203.0.113.9", "10.1.2.3"] };
+
+    expect(getClientIP(headers, "10.0.0.1", { trustedProxies })).toEqual({
+      ok: true,
+      data: "203.0.113.9",
+    });
+  });
+
+  it("should ignore a forged Forwarded header behind an X-Forwarded-For proxy", () => {
+    const headers = {
+      "x-forwarded-for": "198.51.100.7",
+      forwarded: "for=1.2.3.4",
+      "x-real-ip": "1.2.3.4",
+    };
+
+    expect(getClientIP(headers, "10.0.0.1", { trustedProxies })).toEqual({
+      ok: true,
+      data: "198.51.100.7",
+    });
+  });
+
+  it("should read Forwarded when the proxies set it", () => {
+    const headers = {
+      Forwarded:
+        'for=198.51.100.17;proto=https;by=10.0.0.1, for="[2001:db8:cafe::17]:4711"',
+      "X-Forwarded-For": "203.0.113.9",
+    };
+
+    expect(getClientIP(headers, "10.0.0.1", forwardedOptions)).toEqual({
+      ok: true,
+      data: "2001:db8:cafe::17",
+    });
+  });
+
+  it("should skip trusted Forwarded nodes", () => {
+    const headers = {
+      forwarded: 'for=198.51.100.17, For="10.1.2.3:_proxy";proto=http',
+    };
+
+    expect(getClientIP(headers, "10.0.0.1", forwardedOptions)).toEqual({
+      ok: true,
+      data: "198.51.100.17",
+    });
+  });
+
+  it("should ignore separators inside quoted Forwarded values", () => {
+    const headers = {
+      forwarded: 'for=198.51.100.17;host="a,b;c"',
+    };
+
+    expect(getClientIP(headers, "10.0.0.1", forwardedOptions)).toEqual({
+      ok: true,
+      data: "198.51.100.17",
+    });
+  });
+
+  it.each([
+    ["for=_hidden", "_hidden"],
+    ["for=unknown", "unknown"],
+    ["proto=https", "unknown"],
+    ['for="_SEVKISEK"', "_SEVKISEK"],
+  ])("should report obfuscated identifier in %s", (forwarded, node) => {
+    expect(getClientIP({ forwarded }, "10.0.0.1", forwardedOptions)).toEqual({
+      ok: false,
+      error: {
+        type: "INVALID_INPUT",
+        message: `Client IP address is hidden by a proxy: ${node}`,
+      },
+    });
+  });
+
+  it("should stop at the first untrusted node before obfuscated ones", () => {
+    const headers = { forwarded: "for=_hidden, for=198.51.100.17" };
+
+    expect(getClientIP(headers, "10.0.0.1", forwardedOptions)).toEqual({
+      ok: true,
+      data: "198.51.100.17",
+    });
+  });
+
+  it("should report invalid chain entries", () => {
+    expect(
+      getClientIP({ "x-forwarded-for": "not-an-ip" }, "10.0.0.1", {
+        trustedProxies,
+      })
+    ).toEqual({
+      ok: false,
+      error: {
+        type: "INVALID_IP_ADDRESS",
+        message: "Invalid IP address format: not-an-ip",
+      },
+    });
+  });
+
+  it.each([
+    ["CF-Connecting-IP", "203.0.113.1"],
+    ["true-client-ip", "203.0.113.2"],
+    ["x-real-ip", "2001:db8::3"],
+    ["x-client-ip", "192.0.2.1"],
+  ])("should read the single IP header %s", (header, expected) => {
+    const headers = {
+      "cf-connecting-ip": "203.0.113.1",
+      "true-client-ip": "203.0.113.2",
+      "x-real-ip": "2001:DB8::3",
+      "x-forwarded-for": "203.0.113.9",
+    };
+
+    expect(
+      getClientIP(headers, "192.0.2.1", { trustedProxies, header })
+    ).toEqual({ ok: true, data: expected });
+  });
+
+  it("should read WHATWG Headers", () => {
+    const headers = new Headers({ "X-Forwarded-For": "203.0.113.9" });
+
+    expect(getClientIP(headers, "10.0.0.1", { trustedProxies })).toEqual({
+      ok: true,
+      data: "203.0.113.9",
+    });
+  });
+
+  it("should report a missing or invalid remote address", () => {
+    expect(getClientIP({}, undefined)).toEqual({
+      ok: false,
+      error: {
+        type: "INVALID_INPUT",
+        message: "Client IP address is unavailable",
+      },
+    });
+    expect(getClientIP({}, "bogus").ok).toBe(false);
+  });
+
+  it.each(["", 42])("should reject invalid header %p", (header) => {
+    expect(() =>
+      getClientIP({}, "10.0.0.1", { trustedProxies, header: header as string })
+    ).toThrow("Client IP header must be a non-empty string");
+  });
+
+  it.each(["10.0.0.0/33", "not-an-ip"])(
+    "should reject invalid trusted proxy %s",
+    (proxy) => {
+      expect(() =>
+        getClientIP({}, "10.0.0.1", { trustedProxies: [proxy] })
+      ).toThrow(`Invalid trusted proxy: ${proxy}`);
+    }
+  );
+});
@@ -0,0 +1,73 @@
+import axios from "axios";
+import { IPFlare } from "../index";
+
+// Mock axios
+jest.mock("axios", () => ({
+  create: jest.fn(() => ({
+    get: jest.fn(),
+    post: jest.fn(),
+  })),
+  isAxiosError: jest.fn(),
+}));
+
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+const mockAxiosInstance = {
+  get: jest.fn(),
+  post: jest.fn(),
+} as any;
+
+describe("IPFlare in-flight deduplication", () => {
+  const data = { ip: "8.8.8.8", in_eu: false, land_locked: false };
+  let geolocator: IPFlare;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedAxios.create.mockReturnValue(mockAxiosInstance);
+    mockAxiosInstance.get.mockResolvedValue({ data });
+    geolocator = new IPFlare({ apiKey: "test-api-key" });
+  });
+
+  it("should share one request between concurrent lookups", async () => {
+    const results = await Promise.all([
+      geolocator.lookup("8.8.8.8"),
+      geolocator.lookup(" 8.8.8.8"),
+      geolocator.lookup("8.8.8.8 "),
+    ]);
+
+    expect(mockAxiosInstance.get).toHaveBeenCalledTimes(1);
+    expect(results[0]).toEqual({ ok: true, data });
+    expect(results[1]).toBe(results[0]);
+    expect(results[2]).toBe(results[0]);
+  });
+
+  it("should share errors with every caller", async () => {
+    mockAxiosInstance.get.mockReset();
+    mockAxiosInstance.get.mockRejectedValue(new Error("boom"));
+    mockedAxios.isAxiosError.mockReturnValue(false);
+
+    const [first, second] = await Promise.all([
+      geolocator.lookup("8.8.8.8"),
+      geolocator.lookup("8.8.8.8"),
+    ]);
+
+    expect(mockAxiosInstance.get).toHaveBeenCalledTimes(1);
+    expect(first.ok).toBe(false);
+    expect(second).toBe(first);
+  });
+
+  it("should not share requests with different included fields", async () => {
+    await Promise.all([
+      geolocator.lookup("8.8.8.8"),
+      geolocator.lookup("8.8.8.8", { include: { asn: true } }),
+    ]);
+
+    expect(mockAxiosInstance.get).toHaveBeenCalledTimes(2);
+  });
+
+  it("should send a new request once the previous one settles", async () => {
+    await geolocator.lookup("8.8.8.8");
+    await geolocator.lookup("8.8.8.8");
+
+    expect(mockAxiosInstance.get).toHaveBeenCalledTimes(2);
+  });
+});
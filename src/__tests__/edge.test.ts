@@ -0,0 +1,255 @@
+import { readFileSync } from "fs";
+import { dirname, resolve } from "path";
+import * as ts from "typescript";
+import {
+  type IPGeolocationResponse,
+  type LookupBackend,
+  type LookupOptions,
+  type Result,
+  IPFlare,
+  geolocateRequest,
+  getForwardedIP,
+  withGeolocation,
+} from "../index";
+
+const geo = (ip: string) => ({ ip, in_eu: false, land_locked: false });
+
+// Follows the require calls of the compiled modules, as a bundler would, and
+// returns the packages and built-ins they reach
+function externalModules(entry: string): string[] {
+  const visited = new Set<string>();
+  const external = new Set<string>();
+  const visit = (file: string): void => {
+    if (visited.has(file)) return;
+    visited.add(file);
+
+    const { outputText } = ts.transpileModule(readFileSync(file, "utf8"), {
+      compilerOptions: {
+        module: ts.ModuleKind.CommonJS,
+        target: ts.ScriptTarget.ES2018,
+      },
+    });
+    const requires = /require\("([^"]+)"\)/g;
+    let match: RegExpExecArray | null;
+    while ((match = requires.exec(outputText))) {
+      const name = match[1];
+      if (name.startsWith(".")) visit(resolve(dirname(file), `${name}.ts`));
+      else external.add(name);
+    }
+  };
+
+  visit(entry);
+  return [...external];
+}
+
+describe("fetch handlers", () => {
+  let lookups: { ip: string; options?: LookupOptions }[];
+  let geolocator: IPFlare;
+  const backend: LookupBackend = {
+    lookup: async (ip, options) => {
+      lookups.push({ ip, options });
+      return { ok: true, data: geo(ip) };
+    },
+  };
+
+  beforeEach(() => {
+    lookups = [];
+    geolocator = new IPFlare({ backend });
+  });
+
+  const request = (headers: Record<string, string> = {}) =>
+    new Request("https://example.com/", { headers });
+
+  describe("geolocateRequest", () => {
+    it("should look up the IP set by the platform", async () => {
+      const result = await geolocateRequest(
+        geolocator,
+        request({ "CF-Connecting-IP": "2001:DB8::1" }),
+        { include: { asn: true }, header: "cf-connecting-ip" }
+      );
+
+      expect(result).toEqual({ ok: true, data: geo("2001:db8::1") });
+      expect(lookups).toEqual([
+        {
+          ip: "2001:db8::1",
+          options: { include: { asn: true }, signal: expect.any(AbortSignal) },
+        },
+      ]);
+    });
+
+    it("should use the rightmost X-Forwarded-For entry", async () => {
+      await geolocateRequest(
+        geolocator,
+        request({ "X-Forwarded-For": "198.51.100.1, 203.0.113.9" }),
+        { header: "x-forwarded-for" }
+      );
+
+      expect(lookups[0].ip).toBe("203.0.113.9");
+    });
+
+    it("should not let client-sent headers override the platform header", async () => {
+      await geolocateRequest(
+        geolocator,
+        request({
+          "CF-Connecting-IP": "198.51.100.7",
+          Forwarded: "for=1.2.3.4",
+          "X-Forwarded-For": "1.2.3.4",
+        }),
+        { header: "cf-connecting-ip" }
+      );
+
+      expect(lookups[0].ip).toBe("198.51.100.7");
+    });
+
+    it("should require a header or a custom resolver", async () => {
+      await expect(
+        geolocateRequest(geolocator, request(), {} as never)
+      ).rejects.toThrow("Client IP header must be a non-empty string");
+      expect(() =>
+        getForwardedIP(
+          new Headers({ "X-Forwarded-For": "1.2.3.4" }),
+          {} as never
+        )
+      ).toThrow("Client IP header must be a non-empty string");
+    });
+
+    it("should skip trusted proxies in the chain", async () => {
+      await geolocateRequest(
+        geolocator,
+        request({ Forwarded: "for=203.0.113.9, for=10.0.0.2" }),
+        { trustedProxies: ["10.0.0.0/8"], header: "forwarded" }
+      );
+
+      expect(lookups[0].ip).toBe("203.0.113.9");
+    });
+
+    it("should use a custom IP resolver", async () => {
+      await geolocateRequest(
+        geolocator,
+        request({ "Fly-Client-IP": "1.1.1.1" }),
+        {
+          getIP: (req) => req.headers.get("Fly-Client-IP") ?? undefined,
+        }
+      );
+
+      expect(lookups[0].ip).toBe("1.1.1.1");
+    });
+
+    it.each([
+      ["a missing header", { header: "x-real-ip" }],
+      ["a custom resolver without result", { getIP: () => undefined }],
+    ])("should report a missing client IP with %s", async (_name, options) => {
+      const result = await geolocateRequest(geolocator, request(), options);
+
+      expect(result).toEqual({
+        ok: false,
+        error: {
+          type: "INVALID_INPUT",
+          message: "Client IP address is unavailable",
+        },
+      });
+      expect(lookups).toHaveLength(0);
+    });
+
+    it("should report obfuscated identifiers", async () => {
+      const result = await geolocateRequest(
+        geolocator,
+        request({ Forwarded: "for=_hidden" }),
+        { header: "forwarded" }
+      );
+
+      expect(result.ok).toBe(false);
+      expect(lookups).toHaveLength(0);
+    });
+  });
+
+  describe("withGeolocation", () => {
+    it("should pass the Result and further arguments to the handler", async () => {
+      const handler = withGeolocation(
+        geolocator,
+        (req: Request, result: Result<IPGeolocationResponse>, env: string) =>
+          Response.json({ url: req.url, result, env }),
+        { header: "x-real-ip" }
+      );
+
+      const response = await handler(
+        request({ "X-Real-IP": "203.0.113.9" }),
+        "production"
+      );
+
+      expect(await response.json()).toEqual({
+        url: "https://example.com/",
+        result: { ok: true, data: geo("203.0.113.9") },
+        env: "production",
+      });
+    });
+
+    it("should still call the handler when the lookup fails", async () => {
+      const handler = withGeolocation(
+        geolocator,
+        (_req, result) =>
+          new Response(result.ok ? "located" : result.error.message, {
+            status: result.ok ? 200 : 400,
+          }),
+        { header: "x-real-ip" }
+      );
+
+      const response = await handler(request());
+
+      expect(response.status).toBe(400);
+      expect(await response.text()).toBe("Client IP address is unavailable");
+    });
+  });
+});
+
+describe("edge entry point", () => {
+  const unavailable = ["fs", "stream", "string_decoder", "axios"];
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    unavailable.forEach((name) => jest.dontMock(name));
+  });
+
+  it("should not reach Node.js built-ins or axios", () => {
+    expect(externalModules(resolve(__dirname, "../edge.ts"))).toEqual([]);
+  });
+
+  it("should run without Node.js built-ins or axios", async () => {
+    const fetchMock = jest
+      .spyOn(global, "fetch")
+      .mockResolvedValue(new Response(JSON.stringify(geo("203.0.113.7"))));
+
+    let edge!: typeof import("../edge");
+    jest.isolateModules(() => {
+      unavailable.forEach((name) =>
+        jest.doMock(name, () => {
+          throw new Error(`Cannot find module '${name}'`);
+        })
+      );
+      edge = require("../edge");
+    });
+
+    const handler = edge.withGeolocation(
+      new edge.IPFlare({ apiKey: "test-key" }),
+      (_request, geo) => new Response(JSON.stringify(geo)),
+      { header: "x-forwarded-for" }
+    );
+    const response = await handler(
+      new Request("https://example.com/", {
+        headers: { "X-Forwarded-For": "203.0.113.7" },
+      })
+    );
+
+    expect(await response.json()).toEqual({
+      ok: true,
+      data: geo("203.0.113.7"),
+    });
+    expect(fetchMock).toHaveBeenCalledWith(
+      "https://api.ipflare.io/203.0.113.7",
+      expect.objectContaining({ method: "GET" })
+    );
+    expect(
+      () => new edge.IPFlare({ apiKey: "test-key", transport: "axios" })
+    ).toThrow("The axios transport is not available from this entry point");
+  });
+});
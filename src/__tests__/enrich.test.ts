@@ -0,0 +1,193 @@
+import axios from "axios";
+import { Readable, Writable } from "stream";
+import { pipeline } from "stream/promises";
+import {
+  IPFlare,
+  type EnrichStreamOptions,
+  createEnrichStream,
+} from "../index";
+
+// Mock axios
+jest.mock("axios", () => ({
+  create: jest.fn(() => ({
+    get: jest.fn(),
+    post: jest.fn(),
+  })),
+  isAxiosError: jest.fn(),
+}));
+
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+const mockAxiosInstance = {
+  get: jest.fn(),
+  post: jest.fn(),
+} as any;
+
+const geo = (ip: string) => ({ ip, in_eu: false, land_locked: false });
+
+async function enrich(
+  geolocator: IPFlare,
+  chunks: (string | Buffer)[],
+  options?: EnrichStreamOptions
+): Promise<unknown[]> {
+  let output = "";
+  await pipeline(
+    Readable.from(chunks.map((chunk) => Buffer.from(chunk))),
+    createEnrichStream(geolocator, options),
+    new Writable({
+      write(chunk, _encoding, callback) {
+        output += chunk.toString();
+        callback();
+      },
+    })
+  );
+  return output
+    .split("\n")
+    .filter((line) => line !== "")
+    .map((line) => JSON.parse(line));
+}
+
+describe("createEnrichStream", () => {
+  let geolocator: IPFlare;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedAxios.create.mockReturnValue(mockAxiosInstance);
+    geolocator = new IPFlare({ apiKey: "test-api-key" });
+    mockAxiosInstance.post.mockImplementation(
+      async (_url: string, body: { ips: string[] }) => ({
+        data: {
+          results: body.ips.map((ip) =>
+            ip === "9.9.9.9"
+              ? { ip, status: "error", error_message: "Geolocation not found" }
+              : { ip, status: "success", data: geo(ip) }
+          ),
+        },
+      })
+    );
+  });
+
+  it("should enrich plain IP lines", async () => {
+    const records = await enrich(geolocator, ["1.1.1.1\n8.8.", "8.8\r\n\n"]);
+
+    expect(mockAxiosInstance.post).toHaveBeenCalledTimes(1);
+    expect(records).toEqual([
+      { ip: "1.1.1.1", geo: geo("1.1.1.1") },
+      { ip: "8.8.8.8", geo: geo("8.8.8.8") },
+    ]);
+  });
+
+  it("should enrich NDJSON records under a custom key", async () => {
+    const records = await enrich(
+      geolocator,
+      [
+        '{"client_ip":"1.1.1.1","path":"/a"}\n',
+        '{"client_ip":"9.9.9.9","path":"/b"}',
+      ],
+      { field: "client_ip", key: "location", include: { asn: true } }
+    );
+
+    expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+      "/bulk-lookup",
+      { ips: ["1.1.1.1", "9.9.9.9"] },
+      { params: { fields: "asn" } }
+    );
+    expect(records).toEqual([
+      { client_ip: "1.1.1.1", path: "/a", location: geo("1.1.1.1") },
+      {
+        client_ip: "9.9.9.9",
+        path: "/b",
+        location_error: "Geolocation not found",
+      },
+    ]);
+  });
+
+  it("should record bad input inline", async () => {
+    const records = await enrich(
+      geolocator,
+      ['{"client_ip":42}\nnot json\n{"client_ip":"bogus"}\n[1]\n'],
+      { field: "client_ip", errorKey: "error" }
+    );
+
+    expect(mockAxiosInstance.post).not.toHaveBeenCalled();
+    expect(records).toEqual([
+      { client_ip: 42, error: "Field client_ip is missing or not a string" },
+      { line: "not json", error: "Invalid JSON record" },
+      { client_ip: "bogus", error: "Invalid IP address format: bogus" },
+      { line: "[1]", error: "Invalid JSON record" },
+    ]);
+  });
+
+  it("should send one request per batch in input order", async () => {
+    const ips = ["1.1.1.1", "2.2.2.2", "3.3.3.3", "4.4.4.4", "5.5.5.5"];
+
+    const records = await enrich(geolocator, [ips.join("\n")], {
+      batchSize: 2,
+    });
+
+    expect(mockAxiosInstance.post).toHaveBeenCalledTimes(3);
+    expect(records.map((record) => (record as { ip: string }).ip)).toEqual(ips);
+  });
+
+  it("should flush a partial batch when the source goes quiet", async () => {
+    const stream = createEnrichStream(geolocator, { flushInterval: 20 });
+    const records: unknown[] = [];
+    stream.on("data", (chunk: Buffer) =>
+      records.push(JSON.parse(chunk.toString()))
+    );
+
+    stream.write("1.1.1.1\n");
+    stream.write("2.2.2.2\n");
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    expect(records).toEqual([
+      { ip: "1.1.1.1", geo: geo("1.1.1.1") },
+      { ip: "2.2.2.2", geo: geo("2.2.2.2") },
+    ]);
+    expect(mockAxiosInstance.post).toHaveBeenCalledTimes(1);
+
+    stream.end("3.3.3.3\n");
+    await new Promise((resolve) => stream.on("end", resolve));
+    expect(records).toHaveLength(3);
+    expect(mockAxiosInstance.post).toHaveBeenCalledTimes(2);
+  });
+
+  it("should decode characters split across chunks", async () => {
+    const line = Buffer.from('{"ip":"1.1.1.1","city":"Zürich"}\n');
+    const split = line.indexOf(0xc3) + 1;
+
+    const records = await enrich(
+      geolocator,
+      [line.subarray(0, split), line.subarray(split)],
+      { field: "ip" }
+    );
+
+    expect(records).toEqual([
+      { ip: "1.1.1.1", city: "Zürich", geo: geo("1.1.1.1") },
+    ]);
+  });
+
+  it("should record failed requests on every record of the batch", async () => {
+    mockAxiosInstance.post.mockRejectedValue({ response: { status: 401 } });
+    mockedAxios.isAxiosError.mockReturnValue(true);
+
+    const records = await enrich(geolocator, ["1.1.1.1\n2.2.2.2\n"]);
+
+    expect(records).toEqual([
+      { ip: "1.1.1.1", geo_error: "Invalid API key" },
+      { ip: "2.2.2.2", geo_error: "Invalid API key" },
+    ]);
+  });
+
+  it.each([
+    [{ field: "" }, "Enrich field must be a non-empty string"],
+    [{ key: "" }, "Enrich key must be a non-empty string"],
+    [{ errorKey: "" }, "Enrich errorKey must be a non-empty string"],
+    [{ batchSize: 0 }, "Enrich batchSize must be an integer between 1 and 500"],
+    [
+      { flushInterval: -1 },
+      "Enrich flushInterval must be a non-negative number",
+    ],
+  ])("should reject invalid options %p", (options, message) => {
+    expect(() => createEnrichStream(geolocator, options)).toThrow(message);
+  });
+});
@@ -0,0 +1,163 @@
+import { Readable, Writable } from "stream";
+import { pipeline } from "stream/promises";
+import {
+  type BulkLookupResponse,
+  type ExportOptions,
+  createCSVStream,
+  createNDJSONStream,
+  createTSVStream,
+  toCSV,
+  toNDJSON,
+  toTSV,
+} from "../index";
+
+const results: BulkLookupResponse = [
+  {
+    ip: "8.8.8.8",
+    status: "success",
+    data: {
+      ip: "8.8.8.8",
+      city: "Mountain View",
+      region: 'California, "CA"',
+      country_code: "US",
+      in_eu: false,
+      land_locked: false,
+      latitude: 37.4,
+    },
+  },
+  {
+    ip: "9.9.9.9",
+    status: "error",
+    error_message: "Not found,\nreally",
+  },
+];
+
+const columns: ExportOptions["columns"] = [
+  "ip",
+  "status",
+  "city",
+  "region",
+  "in_eu",
+  "latitude",
+  "error_message",
+];
+
+async function collect(
+  transform: NodeJS.ReadWriteStream,
+  items: BulkLookupResponse
+): Promise<string> {
+  let output = "";
+  await pipeline(
+    Readable.from(items),
+    transform,
+    new Writable({
+      write(chunk, _encoding, callback) {
+        output += chunk.toString();
+        callback();
+      },
+    })
+  );
+  return output;
+}
+
+describe("toCSV", () => {
+  it("should quote cells with delimiters, quotes and line breaks", () => {
+    expect(toCSV(results, { columns })).toBe(
+      [
+        "ip,status,city,region,in_eu,latitude,error_message",
+        '8.8.8.8,success,Mountain View,"California, ""CA""",false,37.4,',
+        '9.9.9.9,error,,,,,"Not found,\nreally"',
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("should write every field by default", () => {
+    const [header, row] = toCSV(results).split("\n");
+
+    expect(header.split(",")).toHaveLength(30);
+    expect(header.startsWith("ip,status,version,city,")).toBe(true);
+    expect(header.endsWith(",asn,isp,error_message")).toBe(true);
+    expect(row.startsWith("8.8.8.8,success,,Mountain View,")).toBe(true);
+  });
+
+  it("should omit the header row on request", () => {
+    expect(toCSV(results, { columns: ["ip"], header: false })).toBe(
+      "8.8.8.8\n9.9.9.9\n"
+    );
+  });
+
+  it("should export the original input when present", () => {
+    const normalized: BulkLookupResponse = [
+      { ...results[0], input: "8.8.8.8:443" },
+    ];
+
+    expect(toCSV(normalized, { columns: ["input", "ip"] })).toBe(
+      "input,ip\n8.8.8.8:443,8.8.8.8\n"
+    );
+  });
+
+  it("should reject unknown columns", () => {
+    expect(() => toCSV(results, { columns: ["ip", "zip" as "ip"] })).toThrow(
+      "Unknown export column: zip"
+    );
+    expect(() => toCSV(results, { columns: [] })).toThrow(
+      "At least one export column is required"
+    );
+  });
+});
+
+describe("toTSV", () => {
+  it("should escape tabs, line breaks and backslashes", () => {
+    const item: BulkLookupResponse = [
+      { ip: "1.1.1.1", status: "error", error_message: "a\tb\\c\r\nd" },
+    ];
+
+    expect(toTSV(item, { columns: ["ip", "error_message"] })).toBe(
+      "ip\terror_message\n1.1.1.1\ta\\tb\\\\c\\r\\nd\n"
+    );
+  });
+
+  it("should not quote commas or quotes", () => {
+    expect(toTSV(results, { columns: ["region"], header: false })).toBe(
+      'California, "CA"\n\n'
+    );
+  });
+});
+
+describe("toNDJSON", () => {
+  it("should write one item per line", () => {
+    const lines = toNDJSON(results).split("\n");
+
+    expect(lines).toHaveLength(3);
+    expect(JSON.parse(lines[0])).toEqual(results[0]);
+    expect(JSON.parse(lines[1])).toEqual(results[1]);
+    expect(lines[2]).toBe("");
+  });
+});
+
+describe("export streams", () => {
+  it("should stream CSV matching toCSV", async () => {
+    const output = await collect(createCSVStream({ columns }), results);
+
+    expect(output).toBe(toCSV(results, { columns }));
+  });
+
+  it("should stream TSV matching toTSV", async () => {
+    const output = await collect(createTSVStream(), results);
+
+    expect(output).toBe(toTSV(results));
+  });
+
+  it("should stream NDJSON matching toNDJSON", async () => {
+    const output = await collect(createNDJSONStream(), results);
+
+    expect(output).toBe(toNDJSON(results));
+  });
+
+  it("should write only the header for empty input", async () => {
+    const output = await collect(createCSVStream({ columns: ["ip"] }), []);
+
+    expect(output).toBe("ip\n");
+  });
+});
@@ -0,0 +1,165 @@
+import {
+  type BulkLookupResponse,
+  type IPGeolocationResponse,
+  toGeoJSON,
+  toKML,
+} from "../index";
+
+const geo = (
+  ip: string,
+  latitude?: number,
+  longitude?: number,
+  city?: string
+): IPGeolocationResponse => ({
+  ip,
+  city,
+  country_code: "US",
+  in_eu: false,
+  land_locked: false,
+  latitude,
+  longitude,
+});
+
+const results: BulkLookupResponse = [
+  {
+    ip: "8.8.8.8",
+    status: "success",
+    data: geo("8.8.8.8", 37.40599, -122.078514, "Mountain View"),
+  },
+  {
+    ip: "8.8.4.4",
+    status: "success",
+    data: geo("8.8.4.4", 37.40601, -122.078486, "Mountain View"),
+  },
+  {
+    ip: "1.1.1.1",
+    status: "success",
+    data: geo("1.1.1.1", -33.494, 143.2104, "Sydney"),
+  },
+  { ip: "9.9.9.9", status: "error", error_message: "Geolocation not found" },
+  { ip: "2.2.2.2", status: "success", data: geo("2.2.2.2") },
+];
+
+describe("toGeoJSON", () => {
+  it("should create one Point per result with coordinates", () => {
+    const collection = toGeoJSON(results);
+
+    expect(collection.type).toBe("FeatureCollection");
+    expect(collection.skipped).toBeUndefined();
+    expect(collection.features).toHaveLength(3);
+    expect(collection.features[0]).toEqual({
+      type: "Feature",
+      geometry: { type: "Point", coordinates: [-122.078514, 37.40599] },
+      properties: { ip: "8.8.8.8", city: "Mountain View", country_code: "US" },
+    });
+  });
+
+  it("should accept plain lookup data", () => {
+    const collection = toGeoJSON([geo("1.1.1.1", 1, 2)], {
+      properties: ["ip", "in_eu"],
+    });
+
+    expect(collection.features[0].properties).toEqual({
+      ip: "1.1.1.1",
+      in_eu: false,
+    });
+  });
+
+  it("should report skipped results on request", () => {
+    const collection = toGeoJSON(results, { reportSkipped: true });
+
+    expect(collection.skipped).toEqual([
+      { ip: "9.9.9.9", reason: "Geolocation not found" },
+      { ip: "2.2.2.2", reason: "Missing coordinates" },
+    ]);
+  });
+
+  it("should round coordinates", () => {
+    const collection = toGeoJSON(results, { precision: 2 });
+
+    expect(
+      collection.features.map((feature) => feature.geometry.coordinates)
+    ).toEqual([
+      [-122.08, 37.41],
+      [-122.08, 37.41],
+      [143.21, -33.49],
+    ]);
+  });
+
+  it("should cluster identical coordinates after rounding", () => {
+    const collection = toGeoJSON(results, { precision: 1, cluster: true });
+
+    expect(collection.features).toEqual([
+      {
+        type: "Feature",
+        geometry: { type: "Point", coordinates: [-122.1, 37.4] },
+        properties: {
+          city: "Mountain View",
+          country_code: "US",
+          count: 2,
+          ips: ["8.8.8.8", "8.8.4.4"],
+        },
+      },
+      {
+        type: "Feature",
+        geometry: { type: "Point", coordinates: [143.2, -33.5] },
+        properties: {
+          ip: "1.1.1.1",
+          city: "Sydney",
+          country_code: "US",
+          count: 1,
+          ips: ["1.1.1.1"],
+        },
+      },
+    ]);
+  });
+
+  it.each([-1, 16, 1.5])("should reject precision %p", (precision) => {
+    expect(() => toGeoJSON(results, { precision })).toThrow(
+      "Coordinate precision must be an integer between 0 and 15"
+    );
+  });
+});
+
+describe("toKML", () => {
+  it("should create one Placemark per result", () => {
+    const kml = toKML(results.slice(0, 1), {
+      name: "Attackers & friends",
+      properties: ["ip", "city"],
+    });
+
+    expect(kml).toBe(
+      [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<kml xmlns="http://www.opengis.net/kml/2.2">',
+        "  <Document>",
+        "    <name>Attackers &amp; friends</name>",
+        "    <Placemark>",
+        "      <name>8.8.8.8</name>",
+        '      <ExtendedData><Data name="ip"><value>8.8.8.8</value></Data><Data name="city"><value>Mountain View</value></Data></ExtendedData>',
+        "      <Point><coordinates>-122.078514,37.40599</coordinates></Point>",
+        "    </Placemark>",
+        "  </Document>",
+        "</kml>",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("should name clusters by their size and escape values", () => {
+    const kml = toKML(
+      [geo("1.1.1.1", 1, 2, "<A&B>"), geo("1.0.0.1", 1, 2, "<A&B>")],
+      { cluster: true, properties: ["city"] }
+    );
+
+    expect(kml).toContain("<name>IP Geolocation</name>");
+    expect(kml).toContain("<name>2 IPs</name>");
+    expect(kml).toContain(
+      '<Data name="city"><value>&lt;A&amp;B&gt;</value></Data>'
+    );
+    expect(kml).toContain(
+      '<Data name="ips"><value>1.1.1.1, 1.0.0.1</value></Data>'
+    );
+    expect(kml).toContain("<coordinates>2,1</coordinates>");
+  });
+});
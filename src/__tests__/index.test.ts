@@ -611,28 +611,35 @@ describe("IPFlare", () => {
 
   describe("Edge Cases and Production Scenarios", () => {
     describe("IPv6 Address Variations", () => {
+      // Requests use the RFC 5952 canonical form of each address
       const validIPv6Addresses = [
-        "2001:0db8:0000:0000:0000:ff00:0042:8329",
-        "2001:db8:0:0:0:ff00:42:8329",
-        "2001:db8::ff00:42:8329",
-        "::1",
-        "fe80::1",
-        "::ffff:192.0.2.1",
-        "2001:db8:85a3::8a2e:370:7334",
-        "2001:0db8:85a3:0000:0000:8a2e:0370:7334",
+        ["2001:0db8:0000:0000:0000:ff00:0042:8329", "2001:db8::ff00:42:8329"],
+        ["2001:db8:0:0:0:ff00:42:8329", "2001:db8::ff00:42:8329"],
+        ["2001:db8::ff00:42:8329", "2001:db8::ff00:42:8329"],
+        ["::1", "::1"],
+        ["fe80::1", "fe80::1"],
+        ["::ffff:192.0.2.1", "::ffff:192.0.2.1"],
+        ["2001:db8:85a3::8a2e:370:7334", "2001:db8:85a3::8a2e:370:7334"],
+        [
+          "2001:0db8:85a3:0000:0000:8a2e:0370:7334",
+          "2001:db8:85a3::8a2e:370:7334",
+        ],
       ];
 
-      validIPv6Addresses.forEach((ip) => {
+      validIPv6Addresses.forEach(([ip, canonicalIP]) => {
         it(`should accept valid IPv6: ${ip}`, async () => {
           mockAxiosInstance.get.mockResolvedValue({
-            data: { ip, in_eu: false, land_locked: false },
+            data: { ip: canonicalIP, in_eu: false, land_locked: false },
           });
 
           const result = await geolocator.lookup(ip);
           expect(result.ok).toBe(true);
-          expect(mockAxiosInstance.get).toHaveBeenCalledWith(`/${ip}`, {
-            params: {},
-          });
+          expect(mockAxiosInstance.get).toHaveBeenCalledWith(
+            `/${canonicalIP}`,
+            {
+              params: {},
+            }
+          );
         });
       });
 
@@ -0,0 +1,138 @@
+import axios from "axios";
+import { IPFlare, formatIP, parseIP } from "../index";
+
+// Mock axios
+jest.mock("axios", () => ({
+  create: jest.fn(() => ({
+    get: jest.fn(),
+    post: jest.fn(),
+  })),
+  isAxiosError: jest.fn(),
+}));
+
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+const mockAxiosInstance = {
+  get: jest.fn(),
+  post: jest.fn(),
+} as any;
+
+const canonical = (ip: string): string | undefined => {
+  const parsed = parseIP(ip);
+  return parsed.ok ? formatIP(parsed.data) : undefined;
+};
+
+describe("parseIP", () => {
+  it("should parse IPv4 addresses into 4 bytes", () => {
+    expect(parseIP("192.0.2.1")).toEqual({
+      ok: true,
+      data: { family: 4, bytes: new Uint8Array([192, 0, 2, 1]) },
+    });
+  });
+
+  it("should parse IPv6 addresses into 16 bytes", () => {
+    const result = parseIP("2001:db8::1");
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.data.family).toBe(6);
+      expect(Array.from(result.data.bytes)).toEqual([
+        0x20, 0x01, 0x0d, 0xb8, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1,
+      ]);
+      expect(result.data.zone).toBeUndefined();
+    }
+  });
+
+  it("should keep the zone ID of scoped IPv6 addresses", () => {
+    const result = parseIP("fe80::1%eth0");
+
+    expect(result.ok && result.data.zone).toBe("eth0");
+  });
+
+  it.each([
+    "",
+    " 8.8.8.8",
+    "256.1.1.1",
+    "1.1.1",
+    "1.1.1.1.1",
+    "192.168..1.1",
+    "1.1.1.1%eth0",
+    "gggg::1",
+    ":::1",
+    "1::2::3",
+    "1:2:3:4:5:6:7:8:9",
+    "1:2:3:4:5:6:7::8:9",
+    "::1.2.3.4:5",
+    "fe80::1%",
+    "fe80::1%eth 0",
+  ])("should reject %p", (ip) => {
+    expect(parseIP(ip)).toEqual({
+      ok: false,
+      error: {
+        type: "INVALID_IP_ADDRESS",
+        message: `Invalid IP address format: ${ip}`,
+      },
+    });
+  });
+});
+
+describe("formatIP", () => {
+  it.each([
+    ["8.8.8.8", "8.8.8.8"],
+    ["010.001.000.001", "10.1.0.1"],
+    ["2001:0DB8:0000:0000:0000:0000:0000:0001", "2001:db8::1"],
+    ["2001:db8:0:0:1:0:0:1", "2001:db8::1:0:0:1"],
+    ["2001:db8:0:1:1:1:1:1", "2001:db8:0:1:1:1:1:1"],
+    ["2001:0:0:1:0:0:0:1", "2001:0:0:1::1"],
+    ["0:0:0:0:0:0:0:0", "::"],
+    ["0:0:0:0:0:0:0:1", "::1"],
+    ["1:0:0:0:0:0:0:0", "1::"],
+    ["::ffff:c000:0201", "::ffff:192.0.2.1"],
+    ["0:0:0:0:0:FFFF:192.0.2.1", "::ffff:192.0.2.1"],
+    ["64:ff9b::192.0.2.1", "64:ff9b::c000:201"],
+    ["FE80::0001%eth0", "fe80::1%eth0"],
+  ])("should format %s as %s", (ip, expected) => {
+    expect(canonical(ip)).toBe(expected);
+  });
+});
+
+describe("IPFlare canonical addresses", () => {
+  const geo = (ip: string) => ({ ip, in_eu: false, land_locked: false });
+  let geolocator: IPFlare;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedAxios.create.mockReturnValue(mockAxiosInstance);
+    geolocator = new IPFlare({ apiKey: "test-api-key", cache: {} });
+  });
+
+  it("should share cache entries between spellings of one address", async () => {
+    mockAxiosInstance.get.mockResolvedValue({ data: geo("2001:db8::1") });
+
+    await geolocator.lookup("2001:DB8:0:0::1");
+    const result = await geolocator.lookup("2001:0db8::0001");
+
+    expect(mockAxiosInstance.get).toHaveBeenCalledTimes(1);
+    expect(mockAxiosInstance.get).toHaveBeenCalledWith("/2001:db8::1", {
+      params: {},
+    });
+    expect(result).toEqual({ ok: true, data: geo("2001:db8::1") });
+  });
+
+  it("should send canonical addresses in bulk lookups", async () => {
+    mockAxiosInstance.post.mockResolvedValue({
+      data: {
+        results: [
+          { ip: "2001:db8::1", status: "success", data: geo("2001:db8::1") },
+        ],
+      },
+    });
+
+    await geolocator.bulkLookup({ ips: [" 2001:0DB8::1 "] });
+
+    expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+      "/bulk-lookup",
+      { ips: ["2001:db8::1"] },
+      { params: {} }
+    );
+  });
+});
@@ -0,0 +1,207 @@
+import { type AddressInfo } from "net";
+import { type IncomingMessage, type Server, createServer, get } from "http";
+import {
+  type GeolocatedRequest,
+  type GeolocationMiddlewareError,
+  type GeolocationMiddlewareOptions,
+  type IPGeolocationResponse,
+  type LookupBackend,
+  type LookupOptions,
+  type Result,
+  IPFlare,
+  createGeolocationMiddleware,
+} from "../index";
+
+const geo = (ip: string) => ({ ip, in_eu: false, land_locked: false });
+
+interface Response {
+  status: number;
+  body: {
+    geo?: Result<IPGeolocationResponse>;
+    error?: string;
+    type?: string;
+  };
+}
+
+describe("createGeolocationMiddleware", () => {
+  let server: Server | undefined;
+  let lookups: { ip: string; options?: LookupOptions }[];
+  let respond: (ip: string) => Promise<Result<IPGeolocationResponse>>;
+  const backend: LookupBackend = {
+    lookup: (ip, options) => {
+      lookups.push({ ip, options });
+      return respond(ip);
+    },
+  };
+  let geolocator: IPFlare;
+
+  beforeEach(() => {
+    lookups = [];
+    respond = async (ip) => ({ ok: true, data: geo(ip) });
+    geolocator = new IPFlare({ backend });
+  });
+
+  afterEach(async () => {
+    const running = server;
+    server = undefined;
+    if (running) await new Promise((resolve) => running.close(resolve));
+  });
+
+  async function request(
+    options: GeolocationMiddlewareOptions,
+    path = "/",
+    decorate?: (req: IncomingMessage) => void,
+    headers: Record<string, string> = {}
+  ): Promise<Response> {
+    const middleware = createGeolocationMiddleware(geolocator, options);
+    server = createServer((req, res) => {
+      decorate?.(req);
+      middleware(req, res, (error?: unknown) => {
+        const failure = error as GeolocationMiddlewareError | undefined;
+        res.statusCode = failure ? failure.status : 200;
+        res.end(
+          JSON.stringify(
+            failure
+              ? { error: failure.message, type: failure.result.ok }
+              : { geo: (req as GeolocatedRequest).geo }
+          )
+        );
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server?.listen(0, "127.0.0.1", resolve)
+    );
+    const { port } = server.address() as AddressInfo;
+
+    return new Promise((resolve, reject) => {
+      get(`http://127.0.0.1:${port}${path}`, { headers }, (res) => {
+        let body = "";
+        res.on("data", (chunk) => (body += chunk));
+        res.on("end", () =>
+          resolve({ status: res.statusCode ?? 0, body: JSON.parse(body) })
+        );
+      }).on("error", reject);
+    });
+  }
+
+  it("should attach the lookup Result for the socket address", async () => {
+    const response = await request({ include: { asn: true } });
+
+    expect(response.body.geo).toEqual({ ok: true, data: geo("127.0.0.1") });
+    expect(lookups).toEqual([
+      { ip: "127.0.0.1", options: { include: { asn: true } } },
+    ]);
+  });
+
+  it("should prefer Express req.ip", async () => {
+    await request({}, "/", (req) => {
+      (req as IncomingMessage & { ip: string }).ip = "::ffff:203.0.113.7";
+    });
+
+    expect(lookups[0].ip).toBe("203.0.113.7");
+  });
+
+  it("should use a custom IP resolver", async () => {
+    await request(
+      { getIP: (req) => req.headers["x-test-ip"] as string | undefined },
+      "/",
+      undefined,
+      { "x-test-ip": "2001:DB8::1" }
+    );
+
+    expect(lookups[0].ip).toBe("2001:db8::1");
+  });
+
+  it("should fail open by default", async () => {
+    respond = async () => ({
+      ok: false,
+      error: { type: "NETWORK_ERROR", message: "Network error" },
+    });
+
+    const response = await request({});
+
+    expect(response.status).toBe(200);
+    expect(response.body.geo).toEqual({
+      ok: false,
+      error: { type: "NETWORK_ERROR", message: "Network error" },
+    });
+  });
+
+  it("should pass failures to next when failing closed", async () => {
+    respond = async () => ({
+      ok: false,
+      error: { type: "NETWORK_ERROR", message: "Network error" },
+    });
+
+    const response = await request({ failClosed: true });
+
+    expect(response.status).toBe(503);
+    expect(response.body.error).toBe("Network error");
+  });
+
+  it("should report a missing client IP", async () => {
+    const response = await request({ getIP: () => undefined });
+
+    expect(response.body.geo).toEqual({
+      ok: false,
+      error: {
+        type: "INVALID_INPUT",
+        message: "Client IP address is unavailable",
+      },
+    });
+  });
+
+  it("should give up when the budget runs out", async () => {
+    respond = () => new Promise(() => undefined);
+
+    const response = await request({ budget: 20 });
+
+    expect(response.body.geo).toEqual({
+      ok: false,
+      error: expect.objectContaining({
+        type: "TIMEOUT",
+        message: "Deadline exceeded",
+      }),
+    });
+  });
+
+  it("should finish within the budget when the lookup is fast", async () => {
+    const response = await request({ budget: 1000 });
+
+    expect(response.body.geo?.ok).toBe(true);
+  });
+
+  it("should pass the request timeout to the lookup", async () => {
+    const lookup = jest.spyOn(geolocator, "lookup");
+
+    await request({ timeout: 300, budget: 1000 });
+
+    expect(lookup).toHaveBeenCalledWith("127.0.0.1", {
+      include: undefined,
+      timeout: 300,
+      deadline: expect.any(Number),
+    });
+  });
+
+  it.each([
+    ["/health", true],
+    ["/health/live?verbose=1", true],
+    ["/healthz", false],
+    ["/static/app.js", true],
+    ["/api/users", false],
+  ])("should handle skipped path %s (skipped: %p)", async (path, skipped) => {
+    const response = await request(
+      { skipPaths: ["/health", /^\/static\//] },
+      path
+    );
+
+    expect(response.body.geo === undefined).toBe(skipped);
+    expect(lookups).toHaveLength(skipped ? 0 : 1);
+  });
+
+  it("should reject invalid budgets", () => {
+    expect(() =>
+      createGeolocationMiddleware(geolocator, { budget: 0 })
+    ).toThrow("Middleware budget must be a positive number");
+  });
+});
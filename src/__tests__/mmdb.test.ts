@@ -0,0 +1,425 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import axios from "axios";
+import { IPFlare, MMDBBackend, MMDBReader } from "../index";
+
+// Mock axios
+jest.mock("axios", () => ({
+  create: jest.fn(() => ({
+    get: jest.fn(),
+    post: jest.fn(),
+  })),
+  isAxiosError: jest.fn(),
+}));
+
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+const mockAxiosInstance = {
+  get: jest.fn(),
+  post: jest.fn(),
+} as any;
+
+// Minimal MaxMind DB writer used to build fixtures in memory
+
+const control = (type: number, size: number): number[] => {
+  const bytes: number[] = [];
+  let sizeBits = size;
+  const extra: number[] = [];
+  if (size >= 285) {
+    sizeBits = 30;
+    extra.push((size - 285) >> 8, (size - 285) & 0xff);
+  } else if (size >= 29) {
+    sizeBits = 29;
+    extra.push(size - 29);
+  }
+  if (type > 7) {
+    bytes.push(sizeBits, type - 7);
+  } else {
+    bytes.push((type << 5) | sizeBits);
+  }
+  return [...bytes, ...extra];
+};
+
+const encode = (value: unknown): number[] => {
+  if (typeof value === "string") {
+    const bytes = [...Buffer.from(value, "utf8")];
+    return [...control(2, bytes.length), ...bytes];
+  }
+  if (typeof value === "boolean") {
+    return control(14, value ? 1 : 0);
+  }
+  if (typeof value === "number" && Number.isInteger(value) && value >= 0) {
+    const bytes: number[] = [];
+    for (let rest = value; rest > 0; rest = Math.floor(rest / 256)) {
+      bytes.unshift(rest % 256);
+    }
+    return [...control(6, bytes.length), ...bytes];
+  }
+  if (typeof value === "number" && Number.isInteger(value)) {
+    const buffer = Buffer.alloc(4);
+    buffer.writeInt32BE(value);
+    return [...control(8, 4), ...buffer];
+  }
+  if (typeof value === "number") {
+    const buffer = Buffer.alloc(8);
+    buffer.writeDoubleBE(value);
+    return [...control(3, 8), ...buffer];
+  }
+  if (value instanceof Uint8Array) {
+    return [...control(4, value.length), ...value];
+  }
+  if (Array.isArray(value)) {
+    return [...control(11, value.length), ...value.flatMap(encode)];
+  }
+  if (value && typeof value === "object" && "__float" in value) {
+    const buffer = Buffer.alloc(4);
+    buffer.writeFloatBE((value as { __float: number }).__float);
+    return [...control(15, 4), ...buffer];
+  }
+  if (value && typeof value === "object" && "__pointer" in value) {
+    const pointer = (value as { __pointer: number }).__pointer;
+    return [0x20 | ((pointer >> 8) & 0x7), pointer & 0xff];
+  }
+  const entries = Object.entries(value as Record<string, unknown>);
+  return [
+    ...control(7, entries.length),
+    ...entries.flatMap(([key, entry]) => [...encode(key), ...encode(entry)]),
+  ];
+};
+
+interface TrieNode {
+  children: (TrieNode | number | undefined)[];
+}
+
+const buildMMDB = (
+  networks: [string, number, unknown][],
+  ipVersion: 4 | 6 = 6,
+  recordSize: 24 | 28 | 32 = 24
+): Buffer => {
+  const data: number[] = [];
+  const root: TrieNode = { children: [undefined, undefined] };
+
+  for (const [network, prefix, record] of networks) {
+    const dataOffset = data.length;
+    data.push(...encode(record));
+
+    const bytes = network.includes(":")
+      ? ipv6Bytes(network)
+      : ipVersion === 6
+      ? [...new Array(12).fill(0), ...network.split(".").map(Number)]
+      : network.split(".").map(Number);
+    const bits =
+      network.includes(":") || ipVersion === 4 ? prefix : prefix + 96;
+
+    let node = root;
+    for (let bit = 0; bit < bits; bit++) {
+      const direction = (bytes[bit >> 3] >> (7 - (bit & 7))) & 1;
+      if (bit === bits - 1) {
+        node.children[direction] = -1 - dataOffset;
+      } else {
+        if (typeof node.children[direction] !== "object") {
+          node.children[direction] = { children: [undefined, undefined] };
+        }
+        node = node.children[direction] as TrieNode;
+      }
+    }
+  }
+
+  const nodes: TrieNode[] = [];
+  const number = (node: TrieNode) => {
+    nodes.push(node);
+    for (const child of node.children) {
+      if (typeof child === "object") number(child);
+    }
+  };
+  number(root);
+
+  const nodeCount = nodes.length;
+  const recordValue = (child: TrieNode | number | undefined) => {
+    if (child === undefined) return nodeCount;
+    if (typeof child === "number") return nodeCount + 16 + (-1 - child);
+    return nodes.indexOf(child);
+  };
+
+  const tree: number[] = [];
+  for (const node of nodes) {
+    const [left, right] = node.children.map(recordValue);
+    if (recordSize === 24) {
+      tree.push(left >> 16, (left >> 8) & 0xff, left & 0xff);
+      tree.push(right >> 16, (right >> 8) & 0xff, right & 0xff);
+    } else if (recordSize === 28) {
+      tree.push((left >> 16) & 0xff, (left >> 8) & 0xff, left & 0xff);
+      tree.push(((left >> 20) & 0xf0) | ((right >> 24) & 0x0f));
+      tree.push((right >> 16) & 0xff, (right >> 8) & 0xff, right & 0xff);
+    } else {
+      const buffer = Buffer.alloc(8);
+      buffer.writeUInt32BE(left);
+      buffer.writeUInt32BE(right, 4);
+      tree.push(...buffer);
+    }
+  }
+
+  const metadata = encode({
+    node_count: nodeCount,
+    record_size: recordSize,
+    ip_version: ipVersion,
+    database_type: "Test-City",
+    languages: ["en"],
+    description: { en: "Test database" },
+  });
+
+  return Buffer.from([
+    ...tree,
+    ...new Array(16).fill(0),
+    ...data,
+    0xab,
+    0xcd,
+    0xef,
+    ...Buffer.from("MaxMind.com"),
+    ...metadata,
+  ]);
+};
+
+const ipv6Bytes = (ip: string): number[] => {
+  const [head, tail = ""] = ip.split("::");
+  const parse = (text: string) =>
+    text ? text.split(":").map((group) => parseInt(group, 16)) : [];
+  const groups = [...parse(head), ...parse(tail)];
+  const full = [
+    ...parse(head),
+    ...new Array(8 - groups.length).fill(0),
+    ...parse(tail),
+  ];
+  return full.flatMap((group) => [group >> 8, group & 0xff]);
+};
+
+const CITY_RECORD = {
+  city: { names: { en: "London", de: "London" } },
+  continent: { code: "EU", names: { en: "Europe" } },
+  country: {
+    iso_code: "GB",
+    is_in_european_union: true,
+    names: { en: "United Kingdom" },
+  },
+  subdivisions: [{ iso_code: "ENG", names: { en: "England" } }],
+  postal: { code: "EC1A" },
+  location: {
+    latitude: 51.5142,
+    longitude: -0.0931,
+    time_zone: "Europe/London",
+  },
+};
+
+const US_RECORD = {
+  country: { iso_code: "US", names: { en: "United States" } },
+  location: { latitude: 37.751, longitude: -97.822 },
+};
+
+describe("MMDBReader", () => {
+  it.each([24, 28, 32] as const)(
+    "should read %i-bit search trees",
+    (recordSize) => {
+      const reader = new MMDBReader(
+        buildMMDB(
+          [
+            ["81.2.69.0", 24, CITY_RECORD],
+            ["2001:4860::", 32, US_RECORD],
+          ],
+          6,
+          recordSize
+        )
+      );
+
+      expect(reader.metadata).toMatchObject({
+        ip_version: 6,
+        record_size: recordSize,
+        database_type: "Test-City",
+        languages: ["en"],
+      });
+      expect(reader.get("81.2.69.160")).toEqual(CITY_RECORD);
+      expect(reader.get("::ffff:81.2.69.1")).toEqual(CITY_RECORD);
+      expect(reader.get("2001:4860:4860::8888")).toEqual(US_RECORD);
+      expect(reader.get("81.2.70.1")).toBeUndefined();
+      expect(reader.get("2001:db8::1")).toBeUndefined();
+    }
+  );
+
+  it("should read IPv4-only databases", () => {
+    const reader = new MMDBReader(buildMMDB([["8.8.8.0", 24, US_RECORD]], 4));
+
+    expect(reader.get("8.8.8.8")).toEqual(US_RECORD);
+    expect(reader.get("2001:4860::1")).toBeUndefined();
+    expect(reader.get("not-an-ip")).toBeUndefined();
+  });
+
+  it("should decode every data type", () => {
+    const record = {
+      text: "x".repeat(300),
+      medium: "y".repeat(40),
+      double: 1.5,
+      float: { __float: 0.5 },
+      bytes: new Uint8Array([1, 2, 3]),
+      negative: -42,
+      big: 4294967295,
+      list: [1, "two", false],
+      pointer: { __pointer: 0 },
+    };
+    const reader = new MMDBReader(
+      buildMMDB([
+        ["2.2.2.0", 24, { shared: true }],
+        ["1.1.1.0", 24, record],
+      ])
+    );
+
+    expect(reader.get("1.1.1.1")).toEqual({
+      ...record,
+      float: 0.5,
+      pointer: { shared: true },
+    });
+  });
+
+  it("should reject files without metadata", () => {
+    expect(() => new MMDBReader(Buffer.alloc(64))).toThrow(
+      "Invalid MMDB file: metadata section not found"
+    );
+  });
+});
+
+describe("MMDBBackend", () => {
+  const city = new MMDBReader(
+    buildMMDB([
+      ["81.2.69.0", 24, CITY_RECORD],
+      ["2001:4860::", 32, US_RECORD],
+    ])
+  );
+  const asn = new MMDBReader(
+    buildMMDB([
+      [
+        "81.2.69.0",
+        24,
+        {
+          autonomous_system_number: 20712,
+          autonomous_system_organization: "Andrews & Arnold Ltd",
+        },
+      ],
+      [
+        "9.9.9.0",
+        24,
+        {
+          autonomous_system_number: 19281,
+          autonomous_system_organization: "Quad9",
+        },
+      ],
+    ])
+  );
+  const backend = new MMDBBackend([city, asn]);
+
+  it("should map GeoIP2 records into IPGeolocationResponse", async () => {
+    expect(
+      await backend.lookup("81.2.69.160", { include: { asn: true, isp: true } })
+    ).toEqual({
+      ok: true,
+      data: {
+        ip: "81.2.69.160",
+        city: "London",
+        region: "England",
+        region_code: "ENG",
+        country_code: "GB",
+        country_name: "United Kingdom",
+        continent_code: "EU",
+        in_eu: true,
+        land_locked: false,
+        postal: "EC1A",
+        latitude: 51.5142,
+        longitude: -0.0931,
+        timezone: "Europe/London",
+        asn: "AS20712",
+        isp: "Andrews & Arnold Ltd",
+      },
+    });
+  });
+
+  it("should omit asn and isp unless requested", async () => {
+    const result = await backend.lookup("81.2.69.160");
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.data.asn).toBeUndefined();
+      expect(result.data.isp).toBeUndefined();
+    }
+  });
+
+  it("should answer from any database that has the IP", async () => {
+    const result = await backend.lookup("9.9.9.9", { include: { asn: true } });
+
+    expect(result).toEqual({
+      ok: true,
+      data: { ip: "9.9.9.9", in_eu: false, land_locked: false, asn: "AS19281" },
+    });
+  });
+
+  it("should report missing and invalid IPs", async () => {
+    expect(await backend.lookup("10.0.0.1")).toEqual({
+      ok: false,
+      error: {
+        type: "GEOLOCATION_NOT_FOUND",
+        message: "Geolocation not found for 10.0.0.1",
+      },
+    });
+
+    const invalid = await backend.lookup("bogus");
+    expect(invalid.ok).toBe(false);
+    if (!invalid.ok) {
+      expect(invalid.error.type).toBe("INVALID_IP_ADDRESS");
+    }
+  });
+
+  it("should report unreadable records as UNKNOWN_ERROR", async () => {
+    const corrupt = new MMDBReader(buildMMDB([["81.2.69.0", 24, CITY_RECORD]]));
+    const failure = new Error("Invalid MMDB data type 0");
+    jest.spyOn(corrupt, "get").mockImplementation(() => {
+      throw failure;
+    });
+    const geolocator = new IPFlare({ backend: new MMDBBackend([corrupt]) });
+
+    expect(await geolocator.lookup("81.2.69.160")).toEqual({
+      ok: false,
+      error: {
+        type: "UNKNOWN_ERROR",
+        message: "Failed to read MMDB database: Invalid MMDB data type 0",
+        details: failure,
+      },
+    });
+  });
+
+  it("should require at least one reader", () => {
+    expect(() => new MMDBBackend([])).toThrow(
+      "At least one MMDB reader is required"
+    );
+  });
+
+  it("should load databases from files", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "ipflare-"));
+    const file = path.join(dir, "test.mmdb");
+    await fs.writeFile(file, buildMMDB([["81.2.69.0", 24, CITY_RECORD]]));
+
+    try {
+      const loaded = await MMDBBackend.fromFiles(file);
+      const result = await loaded.lookup("81.2.69.1");
+      expect(result.ok && result.data.city).toBe("London");
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("should serve IPFlare lookups without network access", async () => {
+    jest.clearAllMocks();
+    mockedAxios.create.mockReturnValue(mockAxiosInstance);
+    const geolocator = new IPFlare({ backend });
+
+    const result = await geolocator.lookup("2001:4860:4860::8888");
+
+    expect(result.ok && result.data.country_code).toBe("US");
+    expect(mockAxiosInstance.get).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,209 @@
+import axios from "axios";
+import { IPFlare, formatIP, parseCIDR } from "../index";
+
+// Mock axios
+jest.mock("axios", () => ({
+  create: jest.fn(() => ({
+    get: jest.fn(),
+    post: jest.fn(),
+  })),
+  isAxiosError: jest.fn(),
+}));
+
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+const mockAxiosInstance = {
+  get: jest.fn(),
+  post: jest.fn(),
+} as any;
+
+describe("parseCIDR", () => {
+  it("should clear host bits", () => {
+    const result = parseCIDR("192.0.2.77/24");
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(formatIP(result.data.address)).toBe("192.0.2.0");
+      expect(result.data.prefix).toBe(24);
+    }
+  });
+
+  it("should parse IPv6 blocks", () => {
+    const result = parseCIDR("2001:DB8:1:2::ff/33");
+
+    expect(result.ok && formatIP(result.data.address)).toBe("2001:db8::");
+  });
+
+  it.each([
+    "192.0.2.0",
+    "192.0.2.0/",
+    "192.0.2.0/33",
+    "192.0.2.0/24/1",
+    "2001:db8::/129",
+    "fe80::%eth0/64",
+    "/24",
+    "192.0.2.0/-1",
+  ])("should reject %p", (cidr) => {
+    expect(parseCIDR(cidr)).toEqual({
+      ok: false,
+      error: {
+        type: "INVALID_INPUT",
+        message: `Invalid CIDR notation: ${cidr}`,
+      },
+    });
+  });
+});
+
+describe("IPFlare.lookupNetwork", () => {
+  const geo = (ip: string, country_code: string, asn?: string) => ({
+    ip,
+    country_code,
+    in_eu: false,
+    land_locked: false,
+    ...(asn ? { asn } : {}),
+  });
+  let geolocator: IPFlare;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedAxios.create.mockReturnValue(mockAxiosInstance);
+    geolocator = new IPFlare({ apiKey: "test-api-key" });
+    mockAxiosInstance.post.mockImplementation(
+      async (_url: string, body: { ips: string[] }) => ({
+        data: {
+          results: body.ips.map((ip) => ({
+            ip,
+            status: "success",
+            data: geo(ip, "US", "AS15169"),
+          })),
+        },
+      })
+    );
+  });
+
+  it("should look up every address of small networks", async () => {
+    const result = await geolocator.lookupNetwork("192.0.2.4/30");
+
+    expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+      "/bulk-lookup",
+      { ips: ["192.0.2.4", "192.0.2.5", "192.0.2.6", "192.0.2.7"] },
+      { params: {} }
+    );
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.data.results).toHaveLength(4);
+      expect(result.data.summary).toEqual({
+        network: "192.0.2.4/30",
+        totalAddresses: 4,
+        sampled: 4,
+        resolved: 4,
+        countries: { US: 4 },
+        asns: { AS15169: 4 },
+        uniform: true,
+      });
+    }
+  });
+
+  it("should sample evenly spaced addresses from large networks", async () => {
+    await geolocator.lookupNetwork("10.0.0.0/8", { sample: 5 });
+
+    expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+      "/bulk-lookup",
+      {
+        ips: [
+          "10.0.0.0",
+          "10.64.0.0",
+          "10.128.0.0",
+          "10.192.0.0",
+          "10.255.255.255",
+        ],
+      },
+      { params: {} }
+    );
+  });
+
+  it("should sample IPv6 networks beyond 2^53 addresses", async () => {
+    const result = await geolocator.lookupNetwork("2001:db8::/32", {
+      sample: 3,
+    });
+
+    expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+      "/bulk-lookup",
+      {
+        ips: [
+          "2001:db8::",
+          "2001:db8:8000::",
+          "2001:db8:ffff:ffff:ffff:ffff:ffff:ffff",
+        ],
+      },
+      { params: {} }
+    );
+    expect(result.ok && result.data.summary.totalAddresses).toBe(
+      Math.pow(2, 96)
+    );
+  });
+
+  it("should send single-address samples", async () => {
+    await geolocator.lookupNetwork("0.0.0.0/0", { sample: 1 });
+
+    expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+      "/bulk-lookup",
+      { ips: ["0.0.0.0"] },
+      { params: {} }
+    );
+  });
+
+  it("should summarize mixed results", async () => {
+    mockAxiosInstance.post.mockResolvedValue({
+      data: {
+        results: [
+          { ip: "192.0.2.0", status: "success", data: geo("192.0.2.0", "US") },
+          { ip: "192.0.2.1", status: "success", data: geo("192.0.2.1", "DE") },
+          { ip: "192.0.2.2", status: "error", error_message: "Not found" },
+          { ip: "192.0.2.3", status: "success", data: geo("192.0.2.3", "US") },
+        ],
+      },
+    });
+
+    const result = await geolocator.lookupNetwork("192.0.2.0/30");
+
+    expect(result.ok && result.data.summary).toEqual({
+      network: "192.0.2.0/30",
+      totalAddresses: 4,
+      sampled: 4,
+      resolved: 3,
+      countries: { US: 2, DE: 1 },
+      asns: {},
+      uniform: false,
+    });
+  });
+
+  it("should return invalid CIDR errors", async () => {
+    const result = await geolocator.lookupNetwork("10.0.0.0/40");
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.error.type).toBe("INVALID_INPUT");
+    expect(mockAxiosInstance.post).not.toHaveBeenCalled();
+  });
+
+  it("should validate the sample size", async () => {
+    const result = await geolocator.lookupNetwork("10.0.0.0/8", {
+      sample: 0,
+    });
+
+    expect(result).toEqual({
+      ok: false,
+      error: {
+        type: "INVALID_INPUT",
+        message: "Sample must be a positive integer",
+      },
+    });
+  });
+
+  it("should return request failures", async () => {
+    mockAxiosInstance.post.mockRejectedValue(new Error("boom"));
+
+    const result = await geolocator.lookupNetwork("192.0.2.0/31");
+
+    expect(result.ok).toBe(false);
+  });
+});
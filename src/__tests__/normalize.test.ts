@@ -0,0 +1,169 @@
+import axios from "axios";
+import { IPFlare, formatIP, normalizeIP } from "../index";
+
+// Mock axios
+jest.mock("axios", () => ({
+  create: jest.fn(() => ({
+    get: jest.fn(),
+    post: jest.fn(),
+  })),
+  isAxiosError: jest.fn(),
+}));
+
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+const mockAxiosInstance = {
+  get: jest.fn(),
+  post: jest.fn(),
+} as any;
+
+describe("normalizeIP", () => {
+  it.each([
+    ["8.8.8.8", "8.8.8.8", undefined],
+    ["1.2.3.4:51234", "1.2.3.4", 51234],
+    ["[2001:db8::1]:443", "2001:db8::1", 443],
+    ["[2001:DB8::1]", "2001:db8::1", undefined],
+    ["[fe80::1%eth0]:22", "fe80::1%eth0", 22],
+    ["::ffff:8.8.8.8", "8.8.8.8", undefined],
+    ["[::ffff:808:808]:80", "8.8.8.8", 80],
+    ["::8.8.8.8", "8.8.8.8", undefined],
+    ["::1", "::1", undefined],
+    ["::", "::", undefined],
+    ["2001:db8::1", "2001:db8::1", undefined],
+  ])("should normalize %s to %s", (input, ip, port) => {
+    const result = normalizeIP(input);
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(formatIP(result.data)).toBe(ip);
+      expect(result.data.port).toBe(port);
+    }
+  });
+
+  it.each([
+    "1.2.3.4:",
+    "1.2.3.4:65536",
+    "1.2.3.4:000080",
+    "[1.2.3.4]:80",
+    "[2001:db8::1",
+    "[2001:db8::1]:",
+    "2001:db8::1]:443",
+    "999.1.1.1:80",
+    "not-an-ip",
+  ])("should reject %p", (input) => {
+    expect(normalizeIP(input)).toEqual({
+      ok: false,
+      error: {
+        type: "INVALID_IP_ADDRESS",
+        message: `Invalid IP address format: ${input}`,
+      },
+    });
+  });
+});
+
+describe("IPFlare input normalization", () => {
+  const geo = (ip: string) => ({ ip, in_eu: false, land_locked: false });
+  let geolocator: IPFlare;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedAxios.create.mockReturnValue(mockAxiosInstance);
+    geolocator = new IPFlare({ apiKey: "test-api-key", normalizeInput: true });
+  });
+
+  it("should reject log-style input when disabled", async () => {
+    const strict = new IPFlare({ apiKey: "test-api-key" });
+
+    const result = await strict.lookup("1.2.3.4:51234");
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.error.type).toBe("INVALID_IP_ADDRESS");
+  });
+
+  it("should look up the normalized IP and report the input", async () => {
+    mockAxiosInstance.get.mockResolvedValue({ data: geo("8.8.8.8") });
+
+    const result = await geolocator.lookup("[::ffff:8.8.8.8]:443");
+
+    expect(mockAxiosInstance.get).toHaveBeenCalledWith("/8.8.8.8", {
+      params: {},
+    });
+    expect(result).toEqual({
+      ok: true,
+      data: geo("8.8.8.8"),
+      input: "[::ffff:8.8.8.8]:443",
+    });
+  });
+
+  it("should not store the input in the cache", async () => {
+    const cached = new IPFlare({
+      apiKey: "test-api-key",
+      normalizeInput: true,
+      cache: {},
+    });
+    mockAxiosInstance.get.mockResolvedValue({ data: geo("1.2.3.4") });
+
+    await cached.lookup("1.2.3.4:1000");
+    const result = await cached.lookup("1.2.3.4:2000");
+
+    expect(mockAxiosInstance.get).toHaveBeenCalledTimes(1);
+    expect(result).toEqual({
+      ok: true,
+      data: geo("1.2.3.4"),
+      input: "1.2.3.4:2000",
+    });
+  });
+
+  it("should report the input of every bulk item", async () => {
+    mockAxiosInstance.post.mockResolvedValue({
+      data: {
+        results: [
+          { ip: "1.2.3.4", status: "success", data: geo("1.2.3.4") },
+          {
+            ip: "2001:db8::1",
+            status: "error",
+            error_message: "Geolocation not found",
+          },
+        ],
+      },
+    });
+
+    const result = await geolocator.bulkLookup({
+      ips: ["1.2.3.4:51234", "[2001:db8::1]:443"],
+    });
+
+    expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+      "/bulk-lookup",
+      { ips: ["1.2.3.4", "2001:db8::1"] },
+      { params: {} }
+    );
+    expect(result).toEqual({
+      ok: true,
+      data: [
+        {
+          ip: "1.2.3.4",
+          status: "success",
+          data: geo("1.2.3.4"),
+          input: "1.2.3.4:51234",
+        },
+        {
+          ip: "2001:db8::1",
+          status: "error",
+          error_message: "Geolocation not found",
+          input: "[2001:db8::1]:443",
+        },
+      ],
+    });
+  });
+
+  it("should report inputs in bulkLookupAll results", async () => {
+    mockAxiosInstance.post.mockResolvedValue({
+      data: {
+        results: [{ ip: "1.2.3.4", status: "success", data: geo("1.2.3.4") }],
+      },
+    });
+
+    const result = await geolocator.bulkLookupAll({ ips: ["1.2.3.4:80"] });
+
+    expect(result.ok && result.data.results[0].input).toBe("1.2.3.4:80");
+  });
+});
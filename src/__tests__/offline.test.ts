@@ -0,0 +1,266 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import axios from "axios";
+import { IPFlare, OfflineBackend } from "../index";
+import { parseCSV } from "../csv";
+
+// Mock axios
+jest.mock("axios", () => ({
+  create: jest.fn(() => ({
+    get: jest.fn(),
+    post: jest.fn(),
+  })),
+  isAxiosError: jest.fn(),
+}));
+
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+const mockAxiosInstance = {
+  get: jest.fn(),
+  post: jest.fn(),
+} as any;
+
+const DATABASE = [
+  "start_ip,end_ip,city,country_code,latitude,longitude,in_eu,asn,isp,notes",
+  '1.0.0.0,1.0.0.255,"Sydney, NSW",AU,-33.86,151.2,false,AS13335,Cloudflare,x',
+  "8.8.8.0,8.8.8.255,Mountain View,US,37.4,-122.07,false,AS15169,Google,",
+  "81.2.69.0,81.2.69.255,London,GB,51.5,-0.12,true,,,",
+  "2001:4860::,2001:4860:ffff:ffff:ffff:ffff:ffff:ffff,Mountain View,US,37.4,-122.07,false,AS15169,Google,",
+  "",
+].join("\n");
+
+describe("parseCSV", () => {
+  it("should handle quoted fields, escaped quotes and CRLF", () => {
+    expect(parseCSV('a,"b,c","say ""hi"""\r\n\r\n1,"multi\nline",3')).toEqual([
+      ["a", "b,c", 'say "hi"'],
+      ["1", "multi\nline", "3"],
+    ]);
+  });
+
+  it("should support other delimiters", () => {
+    expect(parseCSV("a\tb\n1\t2", "\t")).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+    ]);
+  });
+
+  it("should reject unterminated quotes", () => {
+    expect(() => parseCSV('a,"b')).toThrow("Unterminated quoted field in CSV");
+  });
+});
+
+describe("OfflineBackend", () => {
+  const backend = OfflineBackend.fromCSV(DATABASE);
+
+  it("should load every range", () => {
+    expect(backend.size).toBe(4);
+  });
+
+  it("should find IPv4 addresses inside a range", async () => {
+    expect(await backend.lookup("1.0.0.1")).toEqual({
+      ok: true,
+      data: {
+        ip: "1.0.0.1",
+        city: "Sydney, NSW",
+        country_code: "AU",
+        latitude: -33.86,
+        longitude: 151.2,
+        in_eu: false,
+        land_locked: false,
+      },
+    });
+
+    const london = await backend.lookup("81.2.69.255");
+    expect(london.ok && london.data.in_eu).toBe(true);
+  });
+
+  it("should find IPv6 addresses inside a range", async () => {
+    const result = await backend.lookup("2001:4860:4860::8888");
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.data.city).toBe("Mountain View");
+    }
+  });
+
+  it("should only include asn and isp when requested", async () => {
+    const result = await backend.lookup("8.8.8.8", {
+      include: { asn: true, isp: true },
+    });
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.data.asn).toBe("AS15169");
+      expect(result.data.isp).toBe("Google");
+    }
+  });
+
+  it("should report IPs outside every range", async () => {
+    for (const ip of ["0.255.255.255", "8.8.9.0", "255.255.255.255", "::1"]) {
+      expect(await backend.lookup(ip)).toEqual({
+        ok: false,
+        error: {
+          type: "GEOLOCATION_NOT_FOUND",
+          message: `Geolocation not found for ${ip}`,
+        },
+      });
+    }
+  });
+
+  it("should reject invalid IPs", async () => {
+    const result = await backend.lookup("not-an-ip");
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.type).toBe("INVALID_IP_ADDRESS");
+    }
+  });
+
+  it("should load a database from a file", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "ipflare-"));
+    const file = path.join(dir, "ranges.csv");
+    await fs.writeFile(file, DATABASE);
+
+    try {
+      const loaded = await OfflineBackend.fromFile(file);
+      expect(loaded.size).toBe(4);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("should reject malformed databases", () => {
+    expect(() => OfflineBackend.fromCSV("ip,city\n1.1.1.1,x")).toThrow(
+      "CSV header must include start_ip and end_ip columns"
+    );
+    expect(() => OfflineBackend.fromCSV("")).toThrow(
+      "CSV header must include start_ip and end_ip columns"
+    );
+    expect(() =>
+      OfflineBackend.fromCSV("start_ip,end_ip\n1.1.1.1,::1")
+    ).toThrow("Invalid IP range on row 1");
+    expect(() =>
+      OfflineBackend.fromCSV(
+        "start_ip,end_ip\n1.1.1.1,1.1.1.1\n2.2.2.2,1.1.1.1"
+      )
+    ).toThrow("Range start is after range end on row 2");
+    expect(() =>
+      OfflineBackend.fromCSV("start_ip,end_ip,latitude\n1.1.1.1,1.1.1.1,north")
+    ).toThrow("Invalid number for latitude on row 1");
+    expect(() =>
+      OfflineBackend.fromCSV(
+        "start_ip,end_ip\n1.1.1.0,1.1.1.9\n1.1.1.9,1.1.1.20"
+      )
+    ).toThrow("CSV contains overlapping IP ranges");
+  });
+});
+
+describe("IPFlare with an offline backend", () => {
+  let geolocator: IPFlare;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedAxios.create.mockReturnValue(mockAxiosInstance);
+    geolocator = new IPFlare({ backend: OfflineBackend.fromCSV(DATABASE) });
+  });
+
+  it("should not require an API key", () => {
+    // @ts-expect-error an API key is required without a backend
+    expect(() => new IPFlare({})).toThrow("API key is required");
+    expect(geolocator).toBeInstanceOf(IPFlare);
+  });
+
+  it("should answer lookups without calling the API", async () => {
+    const result = await geolocator.lookup(" 8.8.8.8 ");
+
+    expect(result.ok && result.data.country_code).toBe("US");
+    expect(mockAxiosInstance.get).not.toHaveBeenCalled();
+  });
+
+  it("should answer bulk lookups without calling the API", async () => {
+    const result = await geolocator.bulkLookup({
+      ips: ["8.8.8.8", "9.9.9.9"],
+      include: { asn: true },
+    });
+
+    expect(result).toEqual({
+      ok: true,
+      data: [
+        {
+          ip: "8.8.8.8",
+          status: "success",
+          data: expect.objectContaining({
+            city: "Mountain View",
+            asn: "AS15169",
+          }),
+        },
+        {
+          ip: "9.9.9.9",
+          status: "error",
+          error_message: "Geolocation not found for 9.9.9.9",
+        },
+      ],
+    });
+    expect(mockAxiosInstance.post).not.toHaveBeenCalled();
+  });
+
+  describe("when the backend throws", () => {
+    const failure = new Error("boom");
+    let calls: number;
+    let throwing: IPFlare;
+
+    beforeEach(() => {
+      calls = 0;
+      const backend = OfflineBackend.fromCSV(DATABASE);
+      throwing = new IPFlare({
+        backend: {
+          lookup: async (ip, options) => {
+            if (calls++ > 0) throw failure;
+            return backend.lookup(ip, options);
+          },
+        },
+        cache: { ttl: 1000, staleWhileRevalidate: 60000 },
+      });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it("should return UNKNOWN_ERROR Results", async () => {
+      calls = 1;
+
+      expect(await throwing.lookup("8.8.8.8")).toEqual({
+        ok: false,
+        error: {
+          type: "UNKNOWN_ERROR",
+          message: "An unexpected error occurred",
+          details: failure,
+        },
+      });
+      expect(await throwing.bulkLookup({ ips: ["8.8.8.8"] })).toEqual({
+        ok: true,
+        data: [
+          {
+            ip: "8.8.8.8",
+            status: "error",
+            error_message: "An unexpected error occurred",
+          },
+        ],
+      });
+    });
+
+    it("should keep the stale entry when a background refresh throws", async () => {
+      await throwing.lookup("8.8.8.8");
+      const now = Date.now();
+      jest.spyOn(Date, "now").mockReturnValue(now + 2000);
+
+      const stale = await throwing.lookup("8.8.8.8");
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(stale.ok).toBe(true);
+      expect(calls).toBe(2);
+      expect(await throwing.lookup("8.8.8.8")).toEqual(stale);
+    });
+  });
+});
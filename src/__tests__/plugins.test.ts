@@ -0,0 +1,223 @@
+import axios from "axios";
+import { IPFlare, type IPFlarePlugin, type PluginRequest } from "../index";
+
+// Mock axios
+jest.mock("axios", () => ({
+  create: jest.fn(() => ({
+    get: jest.fn(),
+    post: jest.fn(),
+  })),
+  isAxiosError: jest.fn(),
+}));
+
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+const mockAxiosInstance = {
+  get: jest.fn(),
+  post: jest.fn(),
+} as any;
+
+const geo = (ip: string) => ({ ip, in_eu: false, land_locked: false });
+
+describe("Plugins", () => {
+  const client = (plugins?: IPFlarePlugin[]) =>
+    new IPFlare({ apiKey: "test-api-key", plugins });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedAxios.create.mockReturnValue(mockAxiosInstance);
+    mockedAxios.isAxiosError.mockReturnValue(true);
+    mockAxiosInstance.get.mockResolvedValue({ data: geo("8.8.8.8") });
+  });
+
+  it("should let onRequest add headers", async () => {
+    const geolocator = client([
+      {
+        onRequest(request) {
+          request.headers["X-Trace-Id"] = "trace-1";
+        },
+      },
+    ]);
+
+    await geolocator.lookup("8.8.8.8");
+
+    expect(mockAxiosInstance.get).toHaveBeenCalledWith("/8.8.8.8", {
+      params: {},
+      headers: { "X-Trace-Id": "trace-1" },
+    });
+  });
+
+  it("should answer requests from onRequest without sending them", async () => {
+    const onResponse = jest.fn();
+    const geolocator = client([
+      {
+        onRequest: (request) =>
+          request.method === "GET"
+            ? { ok: true, data: geo(request.path.slice(1)) }
+            : undefined,
+      },
+      { onRequest: () => ({ ok: true, data: geo("0.0.0.0") }), onResponse },
+    ]);
+
+    expect(await geolocator.lookup("1.1.1.1")).toEqual({
+      ok: true,
+      data: geo("1.1.1.1"),
+    });
+    expect(
+      await geolocator.bulkLookup({ ips: ["1.1.1.1"], include: { asn: true } })
+    ).toEqual({
+      ok: false,
+      error: {
+        type: "INTERNAL_SERVER_ERROR",
+        message: "Invalid response format from API",
+        details: geo("0.0.0.0"),
+      },
+    });
+    expect(mockAxiosInstance.get).not.toHaveBeenCalled();
+    expect(mockAxiosInstance.post).not.toHaveBeenCalled();
+    expect(onResponse).not.toHaveBeenCalled();
+  });
+
+  it("should not retry errors returned by onRequest", async () => {
+    const onRequest = jest.fn(() => ({
+      ok: false as const,
+      error: { type: "NETWORK_ERROR" as const, message: "Offline" },
+    }));
+    const geolocator = new IPFlare({
+      apiKey: "test-api-key",
+      retry: { baseDelay: 1 },
+      plugins: [{ onRequest }],
+    });
+
+    expect(await geolocator.lookup("8.8.8.8")).toEqual({
+      ok: false,
+      error: { type: "NETWORK_ERROR", message: "Offline", attempts: 1 },
+    });
+    expect(onRequest).toHaveBeenCalledTimes(1);
+  });
+
+  it("should pass raw responses to onResponse", async () => {
+    mockAxiosInstance.post.mockResolvedValue({
+      status: 200,
+      statusText: "OK",
+      headers: { "X-Request-Id": "req-1" },
+      data: { results: [] },
+    });
+    const onResponse = jest.fn();
+
+    await client([{ onResponse }]).bulkLookup({ ips: ["8.8.8.8"] });
+
+    expect(onResponse).toHaveBeenCalledWith(
+      {
+        status: 200,
+        statusText: "OK",
+        headers: { "x-request-id": "req-1" },
+        body: { results: [] },
+      },
+      expect.objectContaining({
+        method: "POST",
+        path: "/bulk-lookup",
+        body: { ips: ["8.8.8.8"] },
+        attempt: 1,
+      })
+    );
+  });
+
+  it("should call onError for each failed attempt", async () => {
+    mockAxiosInstance.get
+      .mockRejectedValueOnce({ response: { status: 500, data: {} } })
+      .mockResolvedValueOnce({ data: geo("8.8.8.8") });
+    const attempts: number[] = [];
+    const geolocator = new IPFlare({
+      apiKey: "test-api-key",
+      retry: { baseDelay: 1, jitter: false },
+      plugins: [
+        {
+          onError(error, request: PluginRequest) {
+            expect(error.type).toBe("INTERNAL_SERVER_ERROR");
+            attempts.push(request.attempt);
+          },
+        },
+      ],
+    });
+
+    expect((await geolocator.lookup("8.8.8.8")).ok).toBe(true);
+    expect(attempts).toEqual([1]);
+  });
+
+  it("should pass final Results to onResult", async () => {
+    const onResult = jest.fn();
+    const geolocator = client([{ onResult }]);
+
+    await geolocator.lookup("not-an-ip");
+    await geolocator.bulkLookup({ ips: [] });
+
+    expect(onResult.mock.calls).toEqual([
+      [
+        {
+          ok: false,
+          error: {
+            type: "INVALID_IP_ADDRESS",
+            message: "Invalid IP address format: not-an-ip",
+          },
+        },
+        { method: "lookup", ip: "not-an-ip" },
+      ],
+      [
+        {
+          ok: false,
+          error: {
+            type: "INVALID_INPUT",
+            message: "At least one IP address is required",
+          },
+        },
+        { method: "bulkLookup", ips: [] },
+      ],
+    ]);
+  });
+
+  it("should report hooks that throw as UNKNOWN_ERROR", async () => {
+    const failure = new Error("bug");
+    const geolocator = client([
+      {
+        onResult() {
+          throw failure;
+        },
+      },
+    ]);
+
+    expect(await geolocator.lookup("8.8.8.8")).toEqual({
+      ok: false,
+      error: {
+        type: "UNKNOWN_ERROR",
+        message: "An unexpected error occurred",
+        details: failure,
+      },
+    });
+  });
+
+  it("should run plugins registered with use() in order", async () => {
+    const calls: string[] = [];
+    const geolocator = client([{ onRequest: () => void calls.push("a") }]);
+
+    expect(
+      geolocator
+        .use({ onRequest: () => void calls.push("b") })
+        .use({ onResult: () => void calls.push("c") })
+    ).toBe(geolocator);
+    await geolocator.lookup("8.8.8.8");
+
+    expect(calls).toEqual(["a", "b", "c"]);
+  });
+
+  it("should reject invalid plugins", () => {
+    expect(() => client([null as any])).toThrow(
+      "Plugin must be an object of hooks"
+    );
+    expect(() => client().use({ onError: "log" } as any)).toThrow(
+      "Plugin onError must be a function"
+    );
+    expect(
+      () => new IPFlare({ apiKey: "test-api-key", plugins: {} as any })
+    ).toThrow("Plugins must be an array");
+  });
+});
@@ -0,0 +1,180 @@
+import axios from "axios";
+import { IPFlare } from "../index";
+import { TokenBucket } from "../rate-limiter";
+
+// Mock axios
+jest.mock("axios", () => ({
+  create: jest.fn(() => ({
+    get: jest.fn(),
+    post: jest.fn(),
+  })),
+  isAxiosError: jest.fn(),
+}));
+
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+const mockAxiosInstance = {
+  get: jest.fn(),
+  post: jest.fn(),
+} as any;
+
+describe("TokenBucket", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should allow a burst and then refill at the configured rate", () => {
+    const bucket = new TokenBucket({ requestsPerSecond: 2, burst: 3 });
+
+    expect(bucket.tryAcquire()).toBe(true);
+    expect(bucket.tryAcquire()).toBe(true);
+    expect(bucket.tryAcquire()).toBe(true);
+    expect(bucket.tryAcquire()).toBe(false);
+    expect(bucket.waitTime()).toBe(500);
+
+    jest.advanceTimersByTime(500);
+    expect(bucket.tryAcquire()).toBe(true);
+    expect(bucket.tryAcquire()).toBe(false);
+  });
+
+  it("should serve queued callers in order as tokens free up", async () => {
+    const bucket = new TokenBucket({ requestsPerSecond: 10, burst: 1 });
+    const order: number[] = [];
+
+    bucket.acquire().then(() => order.push(1));
+    bucket.acquire(1).then(() => order.push(2));
+    bucket.acquire(1).then(() => order.push(3));
+    await jest.advanceTimersByTimeAsync(0);
+    expect(order).toEqual([1]);
+
+    await jest.advanceTimersByTimeAsync(100);
+    expect(order).toEqual([1, 2]);
+    expect(bucket.tryAcquire()).toBe(false);
+
+    await jest.advanceTimersByTimeAsync(100);
+    expect(order).toEqual([1, 2, 3]);
+  });
+
+  it("should reject invalid options", () => {
+    expect(() => new TokenBucket({ requestsPerSecond: 0 })).toThrow(
+      "Rate limit requestsPerSecond must be a positive number"
+    );
+    expect(() => new TokenBucket({ requestsPerSecond: 1, burst: 0 })).toThrow(
+      "Rate limit burst must be at least 1"
+    );
+  });
+});
+
+describe("IPFlare rate limiting", () => {
+  const data = { ip: "8.8.8.8", in_eu: false, land_locked: false };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+    mockedAxios.create.mockReturnValue(mockAxiosInstance);
+    mockAxiosInstance.get.mockResolvedValue({ data });
+    mockAxiosInstance.post.mockResolvedValue({
+      data: { results: [{ ip: "8.8.8.8", status: "success", data }] },
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should queue calls over the limit", async () => {
+    const geolocator = new IPFlare({
+      apiKey: "test-api-key",
+      rateLimit: { requestsPerSecond: 1, burst: 1 },
+    });
+
+    const first = geolocator.lookup("8.8.8.8");
+    const second = geolocator.lookup("8.8.4.4");
+    await jest.advanceTimersByTimeAsync(0);
+    expect(mockAxiosInstance.get).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(mockAxiosInstance.get).toHaveBeenCalledTimes(2);
+    expect(await first).toEqual({ ok: true, data });
+    expect(await second).toEqual({ ok: true, data });
+  });
+
+  it("should fail fast with RATE_LIMITED when queueing is off", async () => {
+    const geolocator = new IPFlare({
+      apiKey: "test-api-key",
+      rateLimit: { requestsPerSecond: 4, burst: 1, queue: false },
+    });
+
+    await geolocator.lookup("8.8.8.8");
+    const result = await geolocator.lookup("8.8.8.8");
+
+    expect(result).toEqual({
+      ok: false,
+      error: {
+        type: "RATE_LIMITED",
+        message: "Client-side rate limit exceeded",
+        details: { retryAfter: 250 },
+      },
+    });
+    expect(mockAxiosInstance.get).toHaveBeenCalledTimes(1);
+  });
+
+  it("should report RATE_LIMITED to onError and retry it when configured", async () => {
+    const onError = jest.fn();
+    const geolocator = new IPFlare({
+      apiKey: "test-api-key",
+      rateLimit: { requestsPerSecond: 4, burst: 1, queue: false },
+      retry: { maxAttempts: 2, retryOn: ["RATE_LIMITED"] },
+      plugins: [{ onError }],
+    });
+
+    await geolocator.lookup("8.8.8.8");
+    const pending = geolocator.lookup("8.8.8.8");
+    await jest.advanceTimersByTimeAsync(0);
+    expect(mockAxiosInstance.get).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(250);
+    expect(await pending).toEqual({ ok: true, data });
+    expect(mockAxiosInstance.get).toHaveBeenCalledTimes(2);
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "RATE_LIMITED" }),
+      expect.objectContaining({ attempt: 1 })
+    );
+  });
+
+  it("should charge bulk lookups the configured cost", async () => {
+    const geolocator = new IPFlare({
+      apiKey: "test-api-key",
+      rateLimit: { requestsPerSecond: 1, burst: 5, bulkCost: 5, queue: false },
+    });
+
+    const bulk = await geolocator.bulkLookup({ ips: ["8.8.8.8"] });
+    const single = await geolocator.lookup("8.8.8.8");
+
+    expect(bulk.ok).toBe(true);
+    expect(single.ok).toBe(false);
+    if (!single.ok) {
+      expect(single.error.type).toBe("RATE_LIMITED");
+    }
+  });
+
+  it("should reject invalid bulk costs", () => {
+    expect(
+      () =>
+        new IPFlare({
+          apiKey: "test-api-key",
+          rateLimit: { requestsPerSecond: 1, bulkCost: 0 },
+        })
+    ).toThrow("Rate limit bulkCost must be a positive number");
+    expect(
+      () =>
+        new IPFlare({
+          apiKey: "test-api-key",
+          rateLimit: { requestsPerSecond: 1, burst: 2, bulkCost: 3 },
+        })
+    ).toThrow("Rate limit bulkCost cannot exceed burst");
+  });
+});
@@ -0,0 +1,220 @@
+import axios from "axios";
+import { IPFlare } from "../index";
+import { getRetryDelay, parseRetryAfter, resolveRetryPolicy } from "../retry";
+
+// Mock axios
+jest.mock("axios", () => ({
+  create: jest.fn(() => ({
+    get: jest.fn(),
+    post: jest.fn(),
+  })),
+  isAxiosError: jest.fn(),
+}));
+
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+const mockAxiosInstance = {
+  get: jest.fn(),
+  post: jest.fn(),
+} as any;
+
+const httpError = (status: number, headers: Record<string, string> = {}) => {
+  const error = new Error(`Request failed with status code ${status}`);
+  (error as any).isAxiosError = true;
+  (error as any).response = { status, headers, data: {} };
+  return error;
+};
+
+describe("retry policy", () => {
+  describe("resolveRetryPolicy", () => {
+    it("should fill in defaults", () => {
+      expect(resolveRetryPolicy({})).toEqual({
+        maxAttempts: 3,
+        baseDelay: 200,
+        maxDelay: 5000,
+        jitter: true,
+        retryOn: [
+          "NETWORK_ERROR",
+          "TIMEOUT",
+          "INTERNAL_SERVER_ERROR",
+          "QUOTA_EXCEEDED",
+        ],
+      });
+    });
+
+    it("should reject invalid options", () => {
+      expect(() => resolveRetryPolicy({ maxAttempts: 0 })).toThrow(
+        "Retry maxAttempts must be a positive integer"
+      );
+      expect(() => resolveRetryPolicy({ baseDelay: -1 })).toThrow(
+        "Retry baseDelay must be a non-negative number"
+      );
+      expect(() => resolveRetryPolicy({ maxDelay: -1 })).toThrow(
+        "Retry maxDelay must be a non-negative number"
+      );
+    });
+  });
+
+  describe("getRetryDelay", () => {
+    const policy = resolveRetryPolicy({
+      baseDelay: 100,
+      maxDelay: 1000,
+      maxAttempts: 10,
+      jitter: false,
+    });
+
+    it("should double the delay on each attempt up to maxDelay", () => {
+      expect(getRetryDelay(policy, 1, "NETWORK_ERROR")).toBe(100);
+      expect(getRetryDelay(policy, 2, "NETWORK_ERROR")).toBe(200);
+      expect(getRetryDelay(policy, 4, "NETWORK_ERROR")).toBe(800);
+      expect(getRetryDelay(policy, 5, "NETWORK_ERROR")).toBe(1000);
+    });
+
+    it("should apply jitter below the backoff value", () => {
+      jest.spyOn(Math, "random").mockReturnValue(0.5);
+      const jittered = resolveRetryPolicy({ baseDelay: 100 });
+
+      expect(getRetryDelay(jittered, 2, "NETWORK_ERROR")).toBe(100);
+      jest.restoreAllMocks();
+    });
+
+    it("should not retry non-retryable types or the last attempt", () => {
+      expect(getRetryDelay(policy, 1, "UNAUTHORIZED")).toBeUndefined();
+      expect(getRetryDelay(policy, 10, "NETWORK_ERROR")).toBeUndefined();
+    });
+
+    it("should prefer Retry-After unless it exceeds maxDelay", () => {
+      expect(getRetryDelay(policy, 1, "QUOTA_EXCEEDED", 700)).toBe(700);
+      expect(getRetryDelay(policy, 1, "QUOTA_EXCEEDED", 2000)).toBeUndefined();
+    });
+  });
+
+  describe("parseRetryAfter", () => {
+    it("should parse seconds", () => {
+      expect(parseRetryAfter("3")).toBe(3000);
+      expect(parseRetryAfter(2)).toBe(2000);
+    });
+
+    it("should parse HTTP dates", () => {
+      jest.spyOn(Date, "now").mockReturnValue(Date.UTC(2024, 0, 1, 0, 0, 0));
+
+      expect(parseRetryAfter("Mon, 01 Jan 2024 00:00:05 GMT")).toBe(5000);
+      expect(parseRetryAfter("Sun, 31 Dec 2023 23:59:00 GMT")).toBe(0);
+      jest.restoreAllMocks();
+    });
+
+    it("should ignore missing or malformed values", () => {
+      expect(parseRetryAfter(undefined)).toBeUndefined();
+      expect(parseRetryAfter("soon")).toBeUndefined();
+    });
+  });
+});
+
+describe("IPFlare retry", () => {
+  let geolocator: IPFlare;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedAxios.create.mockReturnValue(mockAxiosInstance);
+    mockedAxios.isAxiosError.mockReturnValue(true);
+    geolocator = new IPFlare({
+      apiKey: "test-api-key",
+      retry: { maxAttempts: 3, baseDelay: 1, jitter: false },
+    });
+  });
+
+  it("should retry transient lookup failures", async () => {
+    const data = { ip: "8.8.8.8", in_eu: false, land_locked: false };
+    mockAxiosInstance.get
+      .mockRejectedValueOnce(httpError(500))
+      .mockRejectedValueOnce(new Error("socket hang up"))
+      .mockResolvedValueOnce({ data });
+
+    const result = await geolocator.lookup("8.8.8.8");
+
+    expect(result).toEqual({ ok: true, data });
+    expect(mockAxiosInstance.get).toHaveBeenCalledTimes(3);
+  });
+
+  it("should report the attempt count when retries run out", async () => {
+    mockAxiosInstance.post.mockRejectedValue(httpError(500));
+
+    const result = await geolocator.bulkLookup({ ips: ["8.8.8.8"] });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.type).toBe("INTERNAL_SERVER_ERROR");
+      expect(result.error.attempts).toBe(3);
+    }
+    expect(mockAxiosInstance.post).toHaveBeenCalledTimes(3);
+  });
+
+  it("should not retry non-retryable errors", async () => {
+    mockAxiosInstance.get.mockRejectedValue(httpError(401));
+
+    const result = await geolocator.lookup("8.8.8.8");
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.type).toBe("UNAUTHORIZED");
+      expect(result.error.attempts).toBe(1);
+    }
+    expect(mockAxiosInstance.get).toHaveBeenCalledTimes(1);
+  });
+
+  it("should wait for Retry-After on 429 responses", async () => {
+    jest.useFakeTimers();
+    const data = { ip: "8.8.8.8", in_eu: false, land_locked: false };
+    mockAxiosInstance.get
+      .mockRejectedValueOnce(httpError(429, { "retry-after": "2" }))
+      .mockResolvedValueOnce({ data });
+
+    const pending = geolocator.lookup("8.8.8.8");
+    await jest.advanceTimersByTimeAsync(1999);
+    expect(mockAxiosInstance.get).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(await pending).toEqual({ ok: true, data });
+    expect(mockAxiosInstance.get).toHaveBeenCalledTimes(2);
+    jest.useRealTimers();
+  });
+
+  it("should report the attempts made when aborted while waiting to retry", async () => {
+    mockAxiosInstance.post.mockRejectedValue(httpError(500));
+    const controller = new AbortController();
+    const client = new IPFlare({
+      apiKey: "test-api-key",
+      retry: { baseDelay: 60000, jitter: false },
+    });
+
+    const pending = client.bulkLookup({
+      ips: ["8.8.8.8"],
+      signal: controller.signal,
+    });
+    await new Promise((resolve) => setImmediate(resolve));
+    controller.abort("gone");
+
+    expect(await pending).toEqual({
+      ok: false,
+      error: {
+        type: "ABORTED",
+        message: "The operation was aborted",
+        details: "gone",
+        attempts: 1,
+      },
+    });
+    expect(mockAxiosInstance.post).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not add attempts when no retry policy is configured", async () => {
+    const client = new IPFlare({ apiKey: "test-api-key" });
+    mockAxiosInstance.get.mockRejectedValue(httpError(500));
+
+    const result = await client.lookup("8.8.8.8");
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.attempts).toBeUndefined();
+    }
+    expect(mockAxiosInstance.get).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,284 @@
+import axios from "axios";
+import { IPFlare } from "../index";
+
+// Mock axios
+jest.mock("axios", () => ({
+  create: jest.fn(() => ({
+    get: jest.fn(),
+    post: jest.fn(),
+  })),
+  isAxiosError: jest.fn(),
+}));
+
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+const mockAxiosInstance = {
+  get: jest.fn(),
+  post: jest.fn(),
+} as any;
+
+const geo = (ip: string) => ({ ip, in_eu: false, land_locked: false });
+const success = (ip: string) => ({ ip, status: "success", data: geo(ip) });
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) items.push(item);
+  return items;
+}
+
+describe("IPFlare.lookupStream", () => {
+  let geolocator: IPFlare;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedAxios.create.mockReturnValue(mockAxiosInstance);
+    geolocator = new IPFlare({ apiKey: "test-api-key" });
+    mockAxiosInstance.post.mockImplementation(
+      async (_url: string, body: { ips: string[] }) => ({
+        data: { results: body.ips.map(success) },
+      })
+    );
+  });
+
+  it("should batch a sync iterable into bulk requests", async () => {
+    const ips = ["1.1.1.1", "2.2.2.2", "3.3.3.3", "4.4.4.4", "5.5.5.5"];
+
+    const items = await collect(
+      geolocator.lookupStream(ips, {
+        batchSize: 2,
+        include: { asn: true },
+      })
+    );
+
+    expect(items).toEqual(ips.map(success));
+    expect(mockAxiosInstance.post).toHaveBeenCalledTimes(3);
+    expect(mockAxiosInstance.post).toHaveBeenNthCalledWith(
+      3,
+      "/bulk-lookup",
+      { ips: ["5.5.5.5"] },
+      { params: { fields: "asn" } }
+    );
+  });
+
+  it("should read async iterables", async () => {
+    async function* source() {
+      yield "1.1.1.1";
+      await delay(1);
+      yield "2.2.2.2";
+    }
+
+    const items = await collect(geolocator.lookupStream(source()));
+
+    expect(items).toEqual([success("1.1.1.1"), success("2.2.2.2")]);
+  });
+
+  it("should preserve input order by default", async () => {
+    mockAxiosInstance.post.mockImplementation(
+      async (_url: string, body: { ips: string[] }) => {
+        if (body.ips[0] === "1.1.1.1") await delay(20);
+        return { data: { results: body.ips.map(success) } };
+      }
+    );
+
+    const items = await collect(
+      geolocator.lookupStream(["1.1.1.1", "2.2.2.2"], { batchSize: 1 })
+    );
+
+    expect(items.map((item) => item.ip)).toEqual(["1.1.1.1", "2.2.2.2"]);
+  });
+
+  it("should yield in completion order when ordered is false", async () => {
+    mockAxiosInstance.post.mockImplementation(
+      async (_url: string, body: { ips: string[] }) => {
+        if (body.ips[0] === "1.1.1.1") await delay(20);
+        return { data: { results: body.ips.map(success) } };
+      }
+    );
+
+    const items = await collect(
+      geolocator.lookupStream(["1.1.1.1", "2.2.2.2"], {
+        batchSize: 1,
+        ordered: false,
+      })
+    );
+
+    expect(items.map((item) => item.ip)).toEqual(["2.2.2.2", "1.1.1.1"]);
+  });
+
+  it("should limit requests in flight", async () => {
+    let active = 0;
+    let maxActive = 0;
+    mockAxiosInstance.post.mockImplementation(
+      async (_url: string, body: { ips: string[] }) => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await delay(5);
+        active--;
+        return { data: { results: body.ips.map(success) } };
+      }
+    );
+    const ips = Array.from({ length: 8 }, (_, index) => `10.0.0.${index}`);
+
+    const items = await collect(
+      geolocator.lookupStream(ips, { batchSize: 1, concurrency: 2 })
+    );
+
+    expect(items).toHaveLength(8);
+    expect(maxActive).toBe(2);
+  });
+
+  it("should only read ahead of the consumer by a bounded amount", async () => {
+    let read = 0;
+    function* source() {
+      for (let index = 0; index < 100; index++) {
+        read++;
+        yield `10.0.0.${index}`;
+      }
+    }
+
+    const stream = geolocator.lookupStream(source(), {
+      batchSize: 2,
+      concurrency: 2,
+    });
+    await stream.next();
+    await delay(5);
+
+    // Two batches in flight plus one batch read ahead
+    expect(read).toBeLessThanOrEqual(6);
+    await stream.return();
+  });
+
+  it("should send a partial batch when the source is slow", async () => {
+    let release: () => void = () => undefined;
+    const blocked = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    async function* source() {
+      yield "1.1.1.1";
+      await blocked;
+      yield "2.2.2.2";
+    }
+
+    const stream = geolocator.lookupStream(source(), { flushInterval: 10 });
+    const first = await stream.next();
+    release();
+    const rest = await collect(stream);
+
+    expect(first.value).toEqual(success("1.1.1.1"));
+    expect(rest).toEqual([success("2.2.2.2")]);
+    expect(mockAxiosInstance.post).toHaveBeenCalledTimes(2);
+  });
+
+  it("should yield invalid inputs as error items", async () => {
+    const items = await collect(
+      geolocator.lookupStream(["1.1.1.1", "not-an-ip", "2.2.2.2"])
+    );
+
+    expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+      "/bulk-lookup",
+      { ips: ["1.1.1.1", "2.2.2.2"] },
+      { params: {} }
+    );
+    expect(items).toEqual([
+      success("1.1.1.1"),
+      {
+        ip: "not-an-ip",
+        status: "error",
+        error_message: "Invalid IP address format: not-an-ip",
+      },
+      success("2.2.2.2"),
+    ]);
+  });
+
+  it("should yield failed requests as error items", async () => {
+    mockAxiosInstance.post.mockImplementation(
+      async (_url: string, body: { ips: string[] }) => {
+        if (body.ips[0] === "1.1.1.1") {
+          throw { response: { status: 500 } };
+        }
+        return { data: { results: body.ips.map(success) } };
+      }
+    );
+    mockedAxios.isAxiosError.mockReturnValue(true);
+
+    const items = await collect(
+      geolocator.lookupStream(["1.1.1.1", "2.2.2.2"], { batchSize: 1 })
+    );
+
+    expect(items).toEqual([
+      {
+        ip: "1.1.1.1",
+        status: "error",
+        error_message: "Internal server error",
+      },
+      success("2.2.2.2"),
+    ]);
+  });
+
+  it("should yield IPs missing from the bulk response as error items", async () => {
+    mockAxiosInstance.post.mockResolvedValue({
+      data: { results: [success("1.1.1.1")] },
+    });
+
+    const items = await collect(
+      geolocator.lookupStream(["1.1.1.1", "2.2.2.2"])
+    );
+
+    expect(items).toEqual([
+      success("1.1.1.1"),
+      {
+        ip: "2.2.2.2",
+        status: "error",
+        error_message: "No result returned for 2.2.2.2",
+      },
+    ]);
+  });
+
+  it("should report inputs when normalizeInput is enabled", async () => {
+    const normalizing = new IPFlare({
+      apiKey: "test-api-key",
+      normalizeInput: true,
+    });
+
+    const items = await collect(normalizing.lookupStream(["1.1.1.1:80"]));
+
+    expect(items).toEqual([{ ...success("1.1.1.1"), input: "1.1.1.1:80" }]);
+  });
+
+  it("should close the source when the consumer stops early", async () => {
+    let closed = false;
+    function* source() {
+      try {
+        for (let index = 0; ; index++) yield `10.0.0.${index % 256}`;
+      } finally {
+        closed = true;
+      }
+    }
+
+    for await (const item of geolocator.lookupStream(source(), {
+      batchSize: 2,
+    })) {
+      expect(item.status).toBe("success");
+      break;
+    }
+
+    expect(closed).toBe(true);
+  });
+
+  it.each([
+    [{ batchSize: 0 }, "Stream batchSize must be an integer between 1 and 500"],
+    [
+      { batchSize: 501 },
+      "Stream batchSize must be an integer between 1 and 500",
+    ],
+    [{ concurrency: 0 }, "Stream concurrency must be a positive integer"],
+    [
+      { flushInterval: -1 },
+      "Stream flushInterval must be a non-negative number",
+    ],
+  ])("should reject invalid options %p", async (options, message) => {
+    await expect(
+      collect(geolocator.lookupStream(["1.1.1.1"], options))
+    ).rejects.toThrow(message);
+  });
+});
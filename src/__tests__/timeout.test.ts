@@ -0,0 +1,200 @@
+import axios from "axios";
+import { IPFlare, type IPGeolocationOptions } from "../index";
+
+// Mock axios
+jest.mock("axios", () => ({
+  create: jest.fn(() => ({
+    get: jest.fn(),
+    post: jest.fn(),
+  })),
+  isAxiosError: jest.fn(),
+}));
+
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+const mockAxiosInstance = {
+  get: jest.fn(),
+  post: jest.fn(),
+} as any;
+
+const geo = (ip: string) => ({ ip, in_eu: false, land_locked: false });
+
+// Behaves like axios: never settles on its own and rejects once aborted
+const hangingRequest = (_path: string, ...args: any[]) =>
+  new Promise((_resolve, reject) => {
+    const { signal } = args[args.length - 1] as { signal?: AbortSignal };
+    signal?.addEventListener("abort", () =>
+      reject(Object.assign(new Error("canceled"), { isAxiosError: true }))
+    );
+  });
+
+const axiosTimeout = Object.assign(new Error("timeout of 50ms exceeded"), {
+  isAxiosError: true,
+  code: "ECONNABORTED",
+});
+
+const deadlineExceeded = {
+  ok: false,
+  error: {
+    type: "TIMEOUT",
+    message: "Deadline exceeded",
+    details: expect.any(Error),
+  },
+};
+
+describe("Timeouts and deadlines", () => {
+  const client = (options: Partial<IPGeolocationOptions> = {}) =>
+    new IPFlare({ apiKey: "test-api-key", ...options });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedAxios.create.mockReturnValue(mockAxiosInstance);
+    mockedAxios.isAxiosError.mockReturnValue(true);
+    mockAxiosInstance.get.mockResolvedValue({ data: geo("8.8.8.8") });
+  });
+
+  it("should pass per-call timeouts to the transport", async () => {
+    await client().lookup("8.8.8.8", { timeout: 250 });
+
+    expect(mockAxiosInstance.get).toHaveBeenCalledWith("/8.8.8.8", {
+      params: {},
+      timeout: 250,
+    });
+  });
+
+  it("should report request timeouts as TIMEOUT", async () => {
+    mockAxiosInstance.get.mockRejectedValue(axiosTimeout);
+
+    expect(await client().lookup("8.8.8.8", { timeout: 50 })).toEqual({
+      ok: false,
+      error: {
+        type: "TIMEOUT",
+        message: "Request timed out",
+        details: { message: "timeout of 50ms exceeded" },
+      },
+    });
+  });
+
+  it("should retry timeouts by default", async () => {
+    mockAxiosInstance.get
+      .mockRejectedValueOnce(axiosTimeout)
+      .mockResolvedValueOnce({ data: geo("8.8.8.8") });
+
+    const result = await client({
+      retry: { baseDelay: 1, jitter: false },
+    }).lookup("8.8.8.8");
+
+    expect(result).toEqual({ ok: true, data: geo("8.8.8.8") });
+    expect(mockAxiosInstance.get).toHaveBeenCalledTimes(2);
+  });
+
+  it("should reject invalid timeouts and deadlines", async () => {
+    const geolocator = client();
+
+    expect(await geolocator.lookup("8.8.8.8", { timeout: 0 })).toEqual({
+      ok: false,
+      error: {
+        type: "INVALID_INPUT",
+        message: "Timeout must be a positive number",
+      },
+    });
+    expect(
+      await geolocator.bulkLookup({
+        ips: ["8.8.8.8"],
+        deadline: new Date("not a date"),
+      })
+    ).toEqual({
+      ok: false,
+      error: {
+        type: "INVALID_INPUT",
+        message: "Deadline must be a Date or a timestamp",
+      },
+    });
+    expect(mockAxiosInstance.get).not.toHaveBeenCalled();
+  });
+
+  it("should not send requests once the deadline has passed", async () => {
+    const result = await client().lookup("8.8.8.8", {
+      deadline: Date.now() - 1,
+    });
+
+    expect(result).toEqual(deadlineExceeded);
+    expect(mockAxiosInstance.get).not.toHaveBeenCalled();
+  });
+
+  it("should cancel the request when the deadline passes", async () => {
+    mockAxiosInstance.get.mockImplementation(hangingRequest);
+
+    const result = await client().lookup("8.8.8.8", {
+      deadline: Date.now() + 20,
+    });
+
+    expect(result).toEqual(deadlineExceeded);
+    const [, config] = mockAxiosInstance.get.mock.calls[0];
+    expect(config.signal.aborted).toBe(true);
+  });
+
+  it("should include retries in the deadline", async () => {
+    mockAxiosInstance.get.mockRejectedValue(new Error("socket hang up"));
+
+    const result = await client({
+      retry: { baseDelay: 60000, jitter: false },
+    }).lookup("8.8.8.8", { deadline: new Date(Date.now() + 20) });
+
+    expect(result).toEqual(deadlineExceeded);
+    expect(mockAxiosInstance.get).toHaveBeenCalledTimes(1);
+  });
+
+  it("should include rate limit waits in the deadline", async () => {
+    mockAxiosInstance.post.mockResolvedValue({
+      data: {
+        results: [{ ip: "1.1.1.1", status: "success", data: geo("1.1.1.1") }],
+      },
+    });
+    const geolocator = client({
+      rateLimit: { requestsPerSecond: 1, burst: 1 },
+    });
+    await geolocator.lookup("8.8.8.8");
+
+    const result = await geolocator.bulkLookupAll({
+      ips: ["1.1.1.1"],
+      deadline: Date.now() + 20,
+    });
+
+    expect(result).toEqual(deadlineExceeded);
+    expect(mockAxiosInstance.post).not.toHaveBeenCalled();
+  });
+
+  it("should report signals that timed out as TIMEOUT", async () => {
+    mockAxiosInstance.get.mockImplementation(hangingRequest);
+
+    const result = await client().lookup("8.8.8.8", {
+      signal: AbortSignal.timeout(20),
+    });
+
+    expect(result).toEqual({
+      ok: false,
+      error: expect.objectContaining({ type: "TIMEOUT" }),
+    });
+  });
+
+  it("should report ABORTED when the signal fires before the deadline", async () => {
+    mockAxiosInstance.get.mockImplementation(hangingRequest);
+    const controller = new AbortController();
+
+    const result = client().lookup("8.8.8.8", {
+      signal: controller.signal,
+      deadline: Date.now() + 60000,
+    });
+    await new Promise((resolve) => setImmediate(resolve));
+    controller.abort("gone");
+
+    expect(await result).toEqual({
+      ok: false,
+      error: {
+        type: "ABORTED",
+        message: "The operation was aborted",
+        details: "gone",
+      },
+    });
+  });
+});
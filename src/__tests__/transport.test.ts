@@ -0,0 +1,344 @@
+import { type AddressInfo } from "net";
+import {
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+  createServer,
+} from "http";
+import {
+  type TransportConfig,
+  IPFlare,
+  TransportError,
+  createFetchTransport,
+} from "../index";
+
+const geo = (ip: string) => ({ ip, in_eu: false, land_locked: false });
+
+interface Received {
+  method?: string;
+  url?: string;
+  apiKey?: unknown;
+  body: string;
+}
+
+describe("transports", () => {
+  let server: Server;
+  let baseURL: string;
+  let received: Received[];
+  let handle: (
+    request: IncomingMessage,
+    response: ServerResponse,
+    body: string
+  ) => void;
+
+  const reply = (
+    response: ServerResponse,
+    status: number,
+    data: unknown,
+    headers: Record<string, string> = {}
+  ) => {
+    response.writeHead(status, {
+      "Content-Type": "application/json",
+      ...headers,
+    });
+    response.end(JSON.stringify(data));
+  };
+
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      let body = "";
+      request.on("data", (chunk) => (body += chunk));
+      request.on("end", () => {
+        received.push({
+          method: request.method,
+          url: request.url,
+          apiKey: request.headers["x-api-key"],
+          body,
+        });
+        handle(request, response, body);
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve)
+    );
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    received = [];
+    handle = (request, response) =>
+      reply(response, 200, geo(request.url?.split("?")[0].slice(1) ?? ""));
+  });
+
+  describe.each(["axios", "fetch"] as const)("%s transport", (transport) => {
+    const client = (timeout?: number) =>
+      new IPFlare({ apiKey: "test-key", baseURL, timeout, transport });
+
+    it("should send single lookups", async () => {
+      const result = await client().lookup("2001:DB8::1", {
+        include: { asn: true, isp: true },
+      });
+
+      expect(result).toEqual({ ok: true, data: geo("2001:db8::1") });
+      expect(received).toEqual([
+        {
+          method: "GET",
+          url: expect.stringMatching(/^\/2001:db8::1\?fields=asn(,|%2C)isp$/),
+          apiKey: "test-key",
+          body: "",
+        },
+      ]);
+    });
+
+    it("should send bulk lookups", async () => {
+      handle = (_request, response, body) =>
+        reply(response, 200, {
+          results: (JSON.parse(body).ips as string[]).map((ip) => ({
+            ip,
+            status: "success",
+            data: geo(ip),
+          })),
+        });
+
+      const result = await client().bulkLookup({ ips: ["1.1.1.1", "8.8.8.8"] });
+
+      expect(result).toEqual({
+        ok: true,
+        data: [
+          { ip: "1.1.1.1", status: "success", data: geo("1.1.1.1") },
+          { ip: "8.8.8.8", status: "success", data: geo("8.8.8.8") },
+        ],
+      });
+      expect(received[0]).toMatchObject({
+        method: "POST",
+        url: "/bulk-lookup",
+        body: JSON.stringify({ ips: ["1.1.1.1", "8.8.8.8"] }),
+      });
+    });
+
+    it.each([
+      [401, { error: "Invalid API key" }, "UNAUTHORIZED", "Invalid API key"],
+      [429, { error: "Too many" }, "QUOTA_EXCEEDED", "Quota exceeded"],
+      [
+        500,
+        { error: "boom" },
+        "INTERNAL_SERVER_ERROR",
+        "Internal server error",
+      ],
+      [
+        404,
+        { error: "geolocation not found" },
+        "GEOLOCATION_NOT_FOUND",
+        "geolocation not found",
+      ],
+    ])("should map status %d", async (status, data, type, message) => {
+      handle = (_request, response) => reply(response, status, data);
+
+      expect(await client().lookup("8.8.8.8")).toEqual({
+        ok: false,
+        error: { type, message, details: data },
+      });
+    });
+
+    it("should report other HTTP errors as NETWORK_ERROR", async () => {
+      handle = (_request, response) => reply(response, 403, {});
+
+      expect(await client().lookup("8.8.8.8")).toEqual({
+        ok: false,
+        error: {
+          type: "NETWORK_ERROR",
+          message: "Network error occurred",
+          details: { status: 403, statusText: "Forbidden" },
+        },
+      });
+    });
+
+    it("should report refused connections as NETWORK_ERROR", async () => {
+      const geolocator = new IPFlare({
+        apiKey: "test-key",
+        baseURL: "http://127.0.0.1:1",
+        transport,
+      });
+
+      expect(await geolocator.lookup("8.8.8.8")).toEqual({
+        ok: false,
+        error: {
+          type: "NETWORK_ERROR",
+          message: "Network error occurred",
+          details: { status: undefined, statusText: undefined },
+        },
+      });
+    });
+
+    it("should report timeouts as TIMEOUT", async () => {
+      handle = () => undefined;
+
+      const result = await client(50).lookup("8.8.8.8");
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) expect(result.error.type).toBe("TIMEOUT");
+    });
+
+    it("should apply per-call timeouts", async () => {
+      handle = () => undefined;
+
+      const result = await client(10000).bulkLookup({
+        ips: ["8.8.8.8"],
+        timeout: 50,
+      });
+
+      expect(result).toEqual({
+        ok: false,
+        error: {
+          type: "TIMEOUT",
+          message: "Request timed out",
+          details: { message: expect.stringContaining("50ms") },
+        },
+      });
+    });
+
+    it("should honor Retry-After headers", async () => {
+      let calls = 0;
+      handle = (_request, response) =>
+        calls++ === 0
+          ? reply(response, 429, {}, { "Retry-After": "0" })
+          : reply(response, 200, geo("8.8.8.8"));
+      const geolocator = new IPFlare({
+        apiKey: "test-key",
+        baseURL,
+        transport,
+        retry: { baseDelay: 5000, jitter: false },
+      });
+
+      expect(await geolocator.lookup("8.8.8.8")).toEqual({
+        ok: true,
+        data: geo("8.8.8.8"),
+      });
+    });
+  });
+
+  describe("createFetchTransport", () => {
+    const config: TransportConfig = {
+      baseURL: "https://api.example.com/",
+      timeout: 1000,
+      headers: { "X-API-Key": "test-key" },
+    };
+
+    it("should use the given fetch implementation", async () => {
+      const fetchImpl = jest.fn(
+        async () =>
+          new Response("not json", {
+            status: 200,
+            headers: { "X-Request-Id": "abc" },
+          })
+      );
+      const transport = createFetchTransport(config, fetchImpl);
+
+      const response = await transport.request({
+        method: "GET",
+        path: "/1.1.1.1",
+        params: {},
+      });
+
+      expect(fetchImpl).toHaveBeenCalledWith(
+        "https://api.example.com/1.1.1.1",
+        expect.objectContaining({
+          method: "GET",
+          headers: { "X-API-Key": "test-key" },
+          body: undefined,
+        })
+      );
+      expect(response).toEqual({
+        status: 200,
+        statusText: "",
+        headers: expect.objectContaining({ "x-request-id": "abc" }),
+        body: "not json",
+      });
+    });
+
+    it("should wrap fetch failures in TransportError", async () => {
+      const cause = new TypeError("fetch failed");
+      const transport = createFetchTransport(config, async () => {
+        throw cause;
+      });
+
+      const request = transport.request({
+        method: "POST",
+        path: "/bulk-lookup",
+        params: {},
+        body: { ips: [] },
+      });
+
+      await expect(request).rejects.toBeInstanceOf(TransportError);
+      await expect(request).rejects.toMatchObject({
+        message: "fetch failed",
+        cause,
+      });
+    });
+  });
+
+  describe("custom transports", () => {
+    it("should build the transport from the client settings", async () => {
+      const request = jest.fn(async () => ({
+        status: 200,
+        headers: {},
+        body: geo("1.1.1.1"),
+      }));
+      const factory = jest.fn(() => ({ request }));
+
+      const geolocator = new IPFlare({
+        apiKey: "test-key",
+        timeout: 2000,
+        transport: factory,
+      });
+      const result = await geolocator.lookup("1.1.1.1");
+
+      expect(factory).toHaveBeenCalledWith({
+        baseURL: "https://api.ipflare.io",
+        timeout: 2000,
+        headers: {
+          "X-API-Key": "test-key",
+          "Content-Type": "application/json",
+        },
+      });
+      expect(request).toHaveBeenCalledWith({
+        method: "GET",
+        path: "/1.1.1.1",
+        params: {},
+      });
+      expect(result).toEqual({ ok: true, data: geo("1.1.1.1") });
+    });
+
+    it("should report other rejections as UNKNOWN_ERROR", async () => {
+      const failure = new Error("bug");
+      const geolocator = new IPFlare({
+        apiKey: "test-key",
+        transport: () => ({
+          request: async () => {
+            throw failure;
+          },
+        }),
+      });
+
+      expect(await geolocator.lookup("1.1.1.1")).toEqual({
+        ok: false,
+        error: {
+          type: "UNKNOWN_ERROR",
+          message: "An unexpected error occurred",
+          details: failure,
+        },
+      });
+    });
+
+    it("should reject unknown transports", () => {
+      expect(
+        () => new IPFlare({ apiKey: "test-key", transport: "xhr" as never })
+      ).toThrow('Transport must be "axios", "fetch" or a transport factory');
+    });
+  });
+});
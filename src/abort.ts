@@ -0,0 +1,168 @@
+import type { ErrorResult, Result } from "./index";
+
+/**
+ * Builds the Result returned when a caller's AbortSignal fires
+ * @param signal - Aborted signal
+ * @returns TIMEOUT error if the signal timed out, as with a deadline or
+ * AbortSignal.timeout(), otherwise ABORTED error carrying the abort reason
+ */
+export function abortedResult(signal?: AbortSignal): ErrorResult {
+  const reason: unknown = signal?.reason;
+  if (isTimeoutReason(reason)) {
+    return {
+      ok: false,
+      error: {
+        type: "TIMEOUT",
+        message: reason.message || "The operation timed out",
+        details: reason,
+      },
+    };
+  }
+
+  return {
+    ok: false,
+    error: {
+      type: "ABORTED",
+      message: "The operation was aborted",
+      details: signal?.reason,
+    },
+  };
+}
+
+/**
+ * Runs a callback when a signal aborts
+ * @param signal - Signal to watch
+ * @param callback - Called once on abort
+ * @returns Function that stops watching the signal
+ */
+export function onAbort(
+  signal: AbortSignal | undefined,
+  callback: () => void
+): () => void {
+  if (!signal) return () => undefined;
+
+  signal.addEventListener("abort", callback, { once: true });
+  return () => signal.removeEventListener("abort", callback);
+}
+
+/**
+ * Combines a caller's signal with an absolute deadline
+ * @param signal - Caller's signal
+ * @param deadline - Time at which the returned signal aborts with a
+ * TimeoutError, as a Date or a timestamp in milliseconds
+ * @returns Signal to use for the call, and a function that stops the deadline
+ * timer once the call has finished
+ */
+export function deadlineSignal(
+  signal: AbortSignal | undefined,
+  deadline: Date | number | undefined
+): { signal?: AbortSignal; clear: () => void } {
+  if (deadline === undefined) return { signal, clear: () => undefined };
+
+  const controller = new AbortController();
+  const expire = (): void => {
+    const reason = new Error("Deadline exceeded");
+    reason.name = "TimeoutError";
+    controller.abort(reason);
+  };
+
+  const remaining = new Date(deadline).getTime() - Date.now();
+  const timer = remaining > 0 ? setTimeout(expire, remaining) : undefined;
+  const stop = onAbort(signal, () => controller.abort(signal?.reason));
+  if (signal?.aborted) controller.abort(signal.reason);
+  else if (remaining <= 0) expire();
+
+  return {
+    signal: controller.signal,
+    clear: () => {
+      clearTimeout(timer);
+      stop();
+    },
+  };
+}
+
+function isTimeoutReason(reason: unknown): reason is Error {
+  return (
+    typeof reason === "object" &&
+    reason !== null &&
+    (reason as { name?: unknown }).name === "TimeoutError"
+  );
+}
+
+/**
+ * Resolves with the operation's Result, or with ABORTED as soon as the signal
+ * fires. The operation itself keeps running.
+ * @param operation - Pending operation
+ * @param signal - Caller's signal
+ * @param aborted - Called when the signal wins the race
+ * @returns Promise with the Result of whichever settles first
+ */
+export function raceAbort<T>(
+  operation: Promise<Result<T>>,
+  signal: AbortSignal | undefined,
+  aborted?: () => void
+): Promise<Result<T>> {
+  if (!signal) return operation;
+
+  return new Promise((resolve, reject) => {
+    const stop = onAbort(signal, () => {
+      aborted?.();
+      resolve(abortedResult(signal));
+    });
+    operation.then(
+      (result) => {
+        stop();
+        resolve(result);
+      },
+      (error) => {
+        stop();
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Operation shared by several callers, each with its own signal. The
+ * operation is aborted once every caller has aborted; callers without a signal
+ * keep it running.
+ */
+export class SharedOperation<T> {
+  private readonly controller = new AbortController();
+  private callers = 0;
+  private readonly operation: Promise<Result<T>>;
+
+  /**
+   * Starts the operation for its first caller, who still has to join
+   * @param run - Operation to share
+   * @param signal - First caller's signal. Without one the operation can never
+   * be aborted, so it runs without a signal.
+   */
+  constructor(
+    run: (signal?: AbortSignal) => Promise<Result<T>>,
+    signal?: AbortSignal
+  ) {
+    this.operation = run(signal ? this.controller.signal : undefined);
+  }
+
+  /**
+   * Waits for the operation on behalf of one caller
+   * @param signal - Caller's signal
+   * @returns Promise with the operation's Result, or ABORTED if the caller's
+   * signal fires first
+   */
+  join(signal?: AbortSignal): Promise<Result<T>> {
+    this.callers++;
+    return raceAbort(this.operation, signal, () => {
+      if (--this.callers === 0) this.controller.abort(signal?.reason);
+    });
+  }
+
+  /**
+   * true once every caller has aborted; later callers must start a new
+   * operation
+   */
+  get aborted(): boolean {
+    return this.controller.signal.aborted;
+  }
+}
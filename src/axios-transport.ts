@@ -0,0 +1,61 @@
+import axios, { type AxiosResponse } from "axios";
+import {
+  type Transport,
+  type TransportConfig,
+  type TransportResponse,
+  TransportError,
+} from "./transport";
+
+/**
+ * Creates a transport backed by axios
+ * @param config - Base URL, timeout and default headers
+ * @returns Transport using an axios instance
+ */
+export function createAxiosTransport(config: TransportConfig): Transport {
+  const client = axios.create({
+    baseURL: config.baseURL,
+    timeout: config.timeout,
+    headers: config.headers,
+  });
+
+  return {
+    async request({ method, path, params, body, signal, timeout, headers }) {
+      try {
+        const options = { params, signal, timeout, headers };
+        const response =
+          method === "GET"
+            ? await client.get(path, options)
+            : await client.post(path, body, options);
+        return fromAxiosResponse(response);
+      } catch (error) {
+        if (!axios.isAxiosError(error)) throw error;
+        if (error.response) return fromAxiosResponse(error.response);
+        throw new TransportError(
+          error.message,
+          error,
+          error.code === "ECONNABORTED" || error.code === "ETIMEDOUT"
+        );
+      }
+    },
+  };
+}
+
+function fromAxiosResponse(response: AxiosResponse): TransportResponse {
+  const headers: Record<string, string> = {};
+  const source: Record<string, unknown> = response.headers ?? {};
+  Object.keys(source).forEach((name) => {
+    const value = source[name];
+    if (value !== undefined && value !== null) {
+      headers[name.toLowerCase()] = Array.isArray(value)
+        ? value.join(", ")
+        : String(value);
+    }
+  });
+
+  return {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+    body: response.data,
+  };
+}
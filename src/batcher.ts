@@ -0,0 +1,129 @@
+import { onAbort } from "./abort";
+
+export interface BatchOptions {
+  /**
+   * Time in milliseconds to collect lookups before sending them (default 10)
+   */
+  window?: number;
+  /**
+   * Number of collected lookups that sends the batch early (default 500, max 500)
+   */
+  maxSize?: number;
+}
+
+/**
+ * Fills in defaults and validates a batching configuration
+ * @param options - Batch options from IPGeolocationOptions
+ * @returns Complete batch options
+ */
+export function resolveBatchOptions(
+  options: BatchOptions
+): Required<BatchOptions> {
+  const resolved = {
+    window: options.window ?? 10,
+    maxSize: options.maxSize ?? 500,
+  };
+
+  if (typeof resolved.window !== "number" || resolved.window < 0) {
+    throw new Error("Batch window must be a non-negative number");
+  }
+
+  if (
+    !Number.isInteger(resolved.maxSize) ||
+    resolved.maxSize < 1 ||
+    resolved.maxSize > 500
+  ) {
+    throw new Error("Batch maxSize must be an integer between 1 and 500");
+  }
+
+  return resolved;
+}
+
+interface PendingLoad<K, V> {
+  key: K;
+  resolve: (value: V | undefined) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Collects individual loads made within a short window and dispatches them as
+ * one batch. The dispatch function resolves with one value per key in key
+ * order; if it rejects, every load of the batch rejects with its error.
+ */
+export class Batcher<K, V> {
+  private readonly window: number;
+  private readonly maxSize: number;
+  private pending: PendingLoad<K, V>[] = [];
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(
+    options: Required<BatchOptions>,
+    private readonly dispatch: (keys: K[]) => Promise<V[]>
+  ) {
+    this.window = options.window;
+    this.maxSize = options.maxSize;
+  }
+
+  /**
+   * Adds a key to the current batch
+   * @param key - Key to load
+   * @param signal - Signal that drops the key if the batch has not been
+   * dispatched yet
+   * @returns Promise with the value dispatched for the key, or undefined if
+   * the key was dropped
+   * @throws The dispatch error if the batch fails
+   */
+  load(key: K, signal?: AbortSignal): Promise<V | undefined> {
+    if (signal?.aborted) return Promise.resolve(undefined);
+
+    return new Promise((resolve, reject) => {
+      const stop = onAbort(signal, () => {
+        const index = this.pending.indexOf(load);
+        if (index === -1) return;
+        this.pending.splice(index, 1);
+        resolve(undefined);
+      });
+      const load: PendingLoad<K, V> = {
+        key,
+        resolve: (value) => {
+          stop();
+          resolve(value);
+        },
+        reject: (error) => {
+          stop();
+          reject(error);
+        },
+      };
+      this.pending.push(load);
+
+      if (this.pending.length >= this.maxSize) {
+        this.flush();
+      } else if (!this.timer) {
+        this.timer = setTimeout(() => this.flush(), this.window);
+      }
+    });
+  }
+
+  /**
+   * Dispatches the current batch immediately
+   */
+  flush(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    const batch = this.pending;
+    this.pending = [];
+    if (batch.length === 0) return;
+
+    this.dispatch(batch.map((load) => load.key)).then(
+      (values) => {
+        batch.forEach((load, index) => load.resolve(values[index]));
+      },
+      (error) => {
+        batch.forEach((load) => load.reject(error));
+      }
+    );
+  }
+}
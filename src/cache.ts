@@ -0,0 +1,264 @@
+export interface CacheOptions<T = unknown> {
+  /**
+   * Maximum number of entries the default in-memory store keeps before evicting
+   * the least recently used (default 1000). Ignored when a custom store is given.
+   */
+  maxEntries?: number;
+  /**
+   * Time in milliseconds an entry is considered fresh (default 300000, 5 minutes)
+   */
+  ttl?: number;
+  /**
+   * Time in milliseconds after `ttl` during which a stale entry is still served
+   * while it is refreshed in the background (default 0, disabled)
+   */
+  staleWhileRevalidate?: number;
+  /**
+   * Store used to hold entries, e.g. one backed by Redis (default MemoryCacheStore)
+   */
+  store?: CacheStore<CacheRecord<T>>;
+}
+
+/**
+ * Value written to a cache store, stamped with the time it was stored
+ */
+export interface CacheRecord<T> {
+  value: T;
+  storedAt: number;
+}
+
+/**
+ * Asynchronous key-value store that backs the lookup cache
+ */
+export interface CacheStore<T> {
+  /**
+   * Returns the stored value, or undefined if missing or expired
+   */
+  get(key: string): Promise<T | undefined>;
+  /**
+   * Stores a value that may be discarded after `ttl` milliseconds
+   */
+  set(key: string, value: T, ttl: number): Promise<void>;
+  /**
+   * Removes a single entry
+   */
+  delete(key: string): Promise<void>;
+}
+
+interface CacheEntry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+/**
+ * Builds the cache key for an IP address and the optional fields requested with it
+ * @param ip - Trimmed IP address
+ * @param include - Optional fields included in the lookup
+ * @returns Cache key string
+ */
+export function createCacheKey(
+  ip: string,
+  include?: { asn?: boolean; isp?: boolean }
+): string {
+  const fields: string[] = [];
+
+  if (include?.asn) fields.push("asn");
+  if (include?.isp) fields.push("isp");
+
+  return `${ip}|${fields.join(",")}`;
+}
+
+/**
+ * In-memory cache with per-entry TTL and least recently used eviction
+ */
+export class LRUCache<T> {
+  private readonly entries = new Map<string, CacheEntry<T>>();
+  private readonly maxEntries: number;
+  private readonly ttl: number;
+
+  constructor(options: Pick<CacheOptions, "maxEntries" | "ttl"> = {}) {
+    this.maxEntries = options.maxEntries ?? 1000;
+    this.ttl = options.ttl ?? 300000;
+
+    if (!Number.isInteger(this.maxEntries) || this.maxEntries < 1) {
+      throw new Error("Cache maxEntries must be a positive integer");
+    }
+
+    if (typeof this.ttl !== "number" || this.ttl <= 0) {
+      throw new Error("Cache ttl must be a positive number");
+    }
+  }
+
+  /**
+   * Number of entries currently held, including any not yet pruned after expiry
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Returns the cached value, or undefined if missing or expired
+   * @param key - Cache key
+   */
+  get(key: string): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Re-insert so the Map's insertion order tracks recency
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  /**
+   * Stores a value, evicting the least recently used entry when full
+   * @param key - Cache key
+   * @param value - Value to store
+   * @param ttl - Overrides the cache-wide ttl for this entry
+   */
+  set(key: string, value: T, ttl: number = this.ttl): void {
+    this.entries.delete(key);
+
+    if (this.entries.size >= this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value;
+      if (oldestKey !== undefined) this.entries.delete(oldestKey);
+    }
+
+    this.entries.set(key, { value, expiresAt: Date.now() + ttl });
+  }
+
+  /**
+   * Removes a single entry
+   * @param key - Cache key
+   */
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  /**
+   * Removes all entries
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * CacheStore backed by an in-process LRUCache
+ */
+export class MemoryCacheStore<T> implements CacheStore<T> {
+  private readonly cache: LRUCache<T>;
+
+  constructor(options: Pick<CacheOptions, "maxEntries"> = {}) {
+    this.cache = new LRUCache<T>({ maxEntries: options.maxEntries });
+  }
+
+  async get(key: string): Promise<T | undefined> {
+    return this.cache.get(key);
+  }
+
+  async set(key: string, value: T, ttl: number): Promise<void> {
+    this.cache.set(key, value, ttl);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.cache.delete(key);
+  }
+}
+
+/**
+ * Freshness-aware wrapper around a CacheStore used by IPFlare
+ */
+export class LookupCache<T> {
+  private readonly store: CacheStore<CacheRecord<T>>;
+  private readonly ttl: number;
+  private readonly staleWhileRevalidate: number;
+  private readonly revalidating = new Set<string>();
+
+  constructor(options: CacheOptions<T> = {}) {
+    this.ttl = options.ttl ?? 300000;
+    this.staleWhileRevalidate = options.staleWhileRevalidate ?? 0;
+
+    if (typeof this.ttl !== "number" || this.ttl <= 0) {
+      throw new Error("Cache ttl must be a positive number");
+    }
+
+    if (
+      typeof this.staleWhileRevalidate !== "number" ||
+      this.staleWhileRevalidate < 0
+    ) {
+      throw new Error(
+        "Cache staleWhileRevalidate must be a non-negative number"
+      );
+    }
+
+    this.store =
+      options.store ??
+      new MemoryCacheStore<CacheRecord<T>>({ maxEntries: options.maxEntries });
+  }
+
+  /**
+   * Returns the cached value and whether it is past its ttl. Store failures are
+   * treated as misses so an unavailable cache never fails a lookup.
+   * @param key - Cache key
+   */
+  async get(key: string): Promise<{ value: T; stale: boolean } | undefined> {
+    let record: CacheRecord<T> | undefined;
+    try {
+      record = await this.store.get(key);
+    } catch {
+      return undefined;
+    }
+    if (!record) return undefined;
+
+    const age = Date.now() - record.storedAt;
+    if (age < this.ttl) {
+      return { value: record.value, stale: false };
+    }
+    if (age < this.ttl + this.staleWhileRevalidate) {
+      return { value: record.value, stale: true };
+    }
+    return undefined;
+  }
+
+  /**
+   * Stores a value, ignoring store failures
+   * @param key - Cache key
+   * @param value - Value to store
+   */
+  async set(key: string, value: T): Promise<void> {
+    try {
+      await this.store.set(
+        key,
+        { value, storedAt: Date.now() },
+        this.ttl + this.staleWhileRevalidate
+      );
+    } catch {
+      // A failed write only costs a future cache miss
+    }
+  }
+
+  /**
+   * Marks a key as being refreshed
+   * @param key - Cache key
+   * @returns false if a refresh for the key is already running
+   */
+  startRevalidation(key: string): boolean {
+    if (this.revalidating.has(key)) return false;
+    this.revalidating.add(key);
+    return true;
+  }
+
+  /**
+   * Clears the refresh mark set by startRevalidation
+   * @param key - Cache key
+   */
+  endRevalidation(key: string): void {
+    this.revalidating.delete(key);
+  }
+}
@@ -0,0 +1,94 @@
+import { ipToBytes, matchesPrefix } from "./ip";
+
+/**
+ * Address scope from the IANA IPv4 and IPv6 special-purpose address registries.
+ * Addresses outside every special-purpose block are "public".
+ */
+export type IPScope =
+  | "public"
+  | "unspecified"
+  | "private"
+  | "shared"
+  | "loopback"
+  | "link-local"
+  | "protocol-assignment"
+  | "documentation"
+  | "benchmarking"
+  | "multicast"
+  | "broadcast"
+  | "unique-local"
+  | "reserved";
+
+interface SpecialRange {
+  bytes: Uint8Array;
+  prefix: number;
+  scope: IPScope;
+}
+
+// Most specific blocks first, since the first match wins
+const SPECIAL_RANGES: [string, number, IPScope][] = [
+  // IPv4 (RFC 6890 and later registry entries)
+  ["255.255.255.255", 32, "broadcast"],
+  ["0.0.0.0", 8, "unspecified"],
+  ["10.0.0.0", 8, "private"],
+  ["100.64.0.0", 10, "shared"],
+  ["127.0.0.0", 8, "loopback"],
+  ["169.254.0.0", 16, "link-local"],
+  ["172.16.0.0", 12, "private"],
+  ["192.0.0.0", 24, "protocol-assignment"],
+  ["192.0.2.0", 24, "documentation"],
+  ["192.88.99.0", 24, "reserved"],
+  ["192.168.0.0", 16, "private"],
+  ["198.18.0.0", 15, "benchmarking"],
+  ["198.51.100.0", 24, "documentation"],
+  ["203.0.113.0", 24, "documentation"],
+  ["224.0.0.0", 4, "multicast"],
+  ["240.0.0.0", 4, "reserved"],
+  // IPv6
+  ["::", 128, "unspecified"],
+  ["::1", 128, "loopback"],
+  ["64:ff9b:1::", 48, "private"],
+  ["100::", 64, "reserved"],
+  ["2001:2::", 48, "benchmarking"],
+  ["2001:db8::", 32, "documentation"],
+  ["2001::", 23, "protocol-assignment"],
+  ["3fff::", 20, "documentation"],
+  ["5f00::", 16, "reserved"],
+  ["fc00::", 7, "unique-local"],
+  ["fe80::", 10, "link-local"],
+  ["ff00::", 8, "multicast"],
+];
+
+const RANGES: SpecialRange[] = SPECIAL_RANGES.map(([ip, prefix, scope]) => ({
+  bytes: ipToBytes(ip) as Uint8Array,
+  // IPv4 blocks are matched inside ::ffff:0:0/96
+  prefix: ip.includes(":") ? prefix : prefix + 96,
+  scope,
+}));
+
+/**
+ * Classifies an IP address using the IANA special-purpose address registries.
+ * IPv4-mapped IPv6 addresses are classified by their embedded IPv4 address.
+ * @param ip - IPv4 or IPv6 address
+ * @returns Scope of the address, or undefined if the input is not a valid IP
+ */
+export function classifyIP(ip: string): IPScope | undefined {
+  const bytes = ipToBytes(ip.trim());
+  if (!bytes) return undefined;
+
+  const range = RANGES.find((candidate) =>
+    matchesPrefix(bytes, candidate.bytes, candidate.prefix)
+  );
+  return range ? range.scope : "public";
+}
+
+/**
+ * Checks whether an IP address belongs to a special-purpose block that the API
+ * reports as RESERVED_IP_ADDRESS
+ * @param ip - IPv4 or IPv6 address
+ * @returns true for valid, non-public addresses
+ */
+export function isReservedIP(ip: string): boolean {
+  const scope = classifyIP(ip);
+  return scope !== undefined && scope !== "public";
+}
@@ -0,0 +1,412 @@
+#!/usr/bin/env node
+import { promises as fs } from "fs";
+import { csvLine } from "./export";
+import {
+  type BulkLookupResponse,
+  type ErrorType,
+  type LookupOptions,
+  type ResultError,
+  IPFlare,
+  classifyIP,
+  formatIP,
+  parseIP,
+} from "./index";
+
+type OutputFormat = "json" | "table" | "csv" | "ndjson";
+
+interface CLIOptions {
+  command?: string;
+  args: string[];
+  format: OutputFormat;
+  include: NonNullable<LookupOptions["include"]>;
+  apiKey?: string;
+  baseURL?: string;
+  help: boolean;
+}
+
+/**
+ * Streams and environment the CLI runs against; tests pass their own
+ */
+export interface CLIEnvironment {
+  stdout: { write(text: string): unknown };
+  stderr: { write(text: string): unknown };
+  stdin: AsyncIterable<Buffer | string>;
+  env: Record<string, string | undefined>;
+}
+
+// Exit status for usage errors such as unknown flags or missing arguments
+const EXIT_USAGE = 2;
+
+// Exit status per error type; success is 0
+const EXIT_CODES: Record<ErrorType, number> = {
+  UNKNOWN_ERROR: 1,
+  INVALID_INPUT: 2,
+  VALIDATION_ERROR: 2,
+  INVALID_IP_ADDRESS: 3,
+  RESERVED_IP_ADDRESS: 4,
+  GEOLOCATION_NOT_FOUND: 5,
+  UNAUTHORIZED: 6,
+  NO_API_KEY_PROVIDED: 6,
+  QUOTA_EXCEEDED: 7,
+  RATE_LIMITED: 7,
+  NETWORK_ERROR: 8,
+  TIMEOUT: 8,
+  INTERNAL_SERVER_ERROR: 9,
+  ABORTED: 10,
+};
+
+const FORMATS: OutputFormat[] = ["json", "table", "csv", "ndjson"];
+
+// Columns shown by the table format for bulk results
+const TABLE_COLUMNS = [
+  "ip",
+  "status",
+  "country_code",
+  "region",
+  "city",
+  "asn",
+  "isp",
+  "error_message",
+];
+
+const USAGE = `Usage: ipflare <command> [options]
+
+Commands:
+  lookup <ip>         Look up one IP address
+  bulk <file|->       Look up one IP per line from a file or stdin
+  validate <ip>       Check an IP address without calling the API
+
+Options:
+  --asn               Include the ASN in results
+  --isp               Include the ISP in results
+  --format <format>   Output format: json, table, csv or ndjson (default json)
+  --api-key <key>     API key (default $IPFLARE_API_KEY)
+  --base-url <url>    API base URL
+  -h, --help          Show this help
+`;
+
+/**
+ * Runs the ipflare command line tool
+ * @param argv - Arguments after the executable and script name
+ * @param environment - Streams and environment variables to use
+ * @returns Promise with the process exit code
+ */
+export async function run(
+  argv: string[],
+  environment: CLIEnvironment = {
+    stdout: process.stdout,
+    stderr: process.stderr,
+    stdin: process.stdin,
+    env: process.env,
+  }
+): Promise<number> {
+  const { stdout, stderr } = environment;
+  const parsed = parseArguments(argv);
+  if (typeof parsed === "string") {
+    stderr.write(`${parsed}\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+
+  if (parsed.help) {
+    stdout.write(USAGE);
+    return 0;
+  }
+
+  const { command, args } = parsed;
+  if (command !== "lookup" && command !== "bulk" && command !== "validate") {
+    const message = command ? `Unknown command: ${command}` : "Missing command";
+    stderr.write(`${message}\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+
+  if (args.length !== 1) {
+    stderr.write(`${command} takes exactly one argument\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+
+  if (command === "validate") return validate(args[0], parsed, environment);
+
+  const apiKey = parsed.apiKey ?? environment.env.IPFLARE_API_KEY;
+  if (!apiKey || apiKey.trim() === "") {
+    return fail(environment, {
+      type: "NO_API_KEY_PROVIDED",
+      message: "Provide an API key with --api-key or IPFLARE_API_KEY",
+    });
+  }
+
+  const geolocator = new IPFlare({ apiKey, baseURL: parsed.baseURL });
+  const include = parsed.include;
+
+  if (command === "lookup") {
+    const result = await geolocator.lookup(args[0], { include });
+    if (!result.ok) return fail(environment, result.error);
+
+    writeRecord(environment, parsed.format, result.data);
+    return 0;
+  }
+
+  let text: string;
+  try {
+    text =
+      args[0] === "-"
+        ? await readAll(environment.stdin)
+        : await fs.readFile(args[0], "utf8");
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return fail(environment, {
+      type: "INVALID_INPUT",
+      message: `Could not read ${args[0]}: ${reason}`,
+    });
+  }
+
+  const lines = text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line !== "");
+  if (lines.length === 0) {
+    return fail(environment, {
+      type: "INVALID_INPUT",
+      message: "At least one IP address is required",
+    });
+  }
+
+  // Invalid lines, such as a header row, become error rows instead of failing
+  // the whole run
+  const valid = lines.map((line) => parseIP(line).ok);
+  const ips = lines.filter((_, index) => valid[index]);
+  const errors: ResultError[] = [];
+
+  let looked: BulkLookupResponse = [];
+  if (ips.length > 0) {
+    const result = await geolocator.bulkLookupAll({ ips, include });
+    if (result.ok) {
+      looked = result.data.results;
+      // Requests that failed after retries even though others succeeded
+      result.data.failedChunks.forEach((chunk) => errors.push(chunk.error));
+    } else {
+      const { message } = result.error;
+      looked = ips.map((ip) => ({
+        ip,
+        status: "error",
+        error_message: message,
+      }));
+      errors.push(result.error);
+    }
+  }
+
+  let next = 0;
+  const results = lines.map((line, index): BulkLookupResponse[number] => {
+    if (valid[index]) return looked[next++];
+
+    const message = `Invalid IP address format: ${line}`;
+    errors.push({ type: "INVALID_IP_ADDRESS", message });
+    return { ip: line, status: "error", error_message: message };
+  });
+  writeResults(environment, parsed.format, results);
+
+  // The exit code comes from the most severe error, the one with the highest
+  // exit code
+  const worst = errors.reduce<ResultError | undefined>(
+    (current, error) =>
+      !current || EXIT_CODES[error.type] > EXIT_CODES[current.type]
+        ? error
+        : current,
+    undefined
+  );
+  return worst ? fail(environment, worst) : 0;
+}
+
+/**
+ * Parses command line arguments
+ * @returns Parsed options, or a usage error message
+ */
+function parseArguments(argv: string[]): CLIOptions | string {
+  const options: CLIOptions = {
+    args: [],
+    format: "json",
+    include: {},
+    help: false,
+  };
+
+  for (let index = 0; index < argv.length; index++) {
+    const argument = argv[index];
+    const [flag, inlineValue] = argument.startsWith("--")
+      ? splitFlag(argument)
+      : [argument, undefined];
+    const takeValue = (): string | undefined =>
+      inlineValue ?? (index + 1 < argv.length ? argv[++index] : undefined);
+
+    if (flag === "--asn") {
+      options.include.asn = true;
+    } else if (flag === "--isp") {
+      options.include.isp = true;
+    } else if (flag === "--help" || flag === "-h") {
+      options.help = true;
+    } else if (flag === "--format") {
+      const format = takeValue();
+      if (!FORMATS.includes(format as OutputFormat)) {
+        const expected = FORMATS.join(", ");
+        return `Invalid format: ${format ?? ""} (expected ${expected})`;
+      }
+      options.format = format as OutputFormat;
+    } else if (flag === "--api-key" || flag === "--base-url") {
+      const value = takeValue();
+      if (!value) return `Missing value for ${flag}`;
+      if (flag === "--api-key") options.apiKey = value;
+      else options.baseURL = value;
+    } else if (flag.startsWith("-") && flag !== "-") {
+      return `Unknown option: ${flag}`;
+    } else if (options.command === undefined) {
+      options.command = argument;
+    } else {
+      options.args.push(argument);
+    }
+  }
+
+  return options;
+}
+
+function splitFlag(argument: string): [string, string | undefined] {
+  const equals = argument.indexOf("=");
+  return equals === -1
+    ? [argument, undefined]
+    : [argument.slice(0, equals), argument.slice(equals + 1)];
+}
+
+/**
+ * Validates an IP locally and prints its canonical form and scope
+ */
+function validate(
+  ip: string,
+  options: CLIOptions,
+  environment: CLIEnvironment
+): number {
+  const parsed = parseIP(ip.trim());
+  if (!parsed.ok) return fail(environment, parsed.error);
+
+  const canonicalIP = formatIP(parsed.data);
+  const record = {
+    input: ip,
+    ip: canonicalIP,
+    family: parsed.data.family,
+    scope: classifyIP(canonicalIP),
+  };
+  writeRecord(environment, options.format, record);
+  return 0;
+}
+
+function fail(environment: CLIEnvironment, error: ResultError): number {
+  environment.stderr.write(`Error: ${error.message}\n`);
+  return EXIT_CODES[error.type];
+}
+
+async function readAll(
+  stream: AsyncIterable<Buffer | string>
+): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+/**
+ * Writes a single record; the table format lists one field per line
+ */
+function writeRecord(
+  environment: CLIEnvironment,
+  format: OutputFormat,
+  record: object
+): void {
+  const row = record as Record<string, unknown>;
+  const columns = Object.keys(row);
+  const lines =
+    format === "json"
+      ? [JSON.stringify(row, null, 2)]
+      : format === "ndjson"
+      ? [JSON.stringify(row)]
+      : format === "csv"
+      ? csvLines(columns, [row])
+      : tableLines(columns.map((column) => [column, text(row[column])]));
+  lines.forEach((line) => environment.stdout.write(`${line}\n`));
+}
+
+/**
+ * Writes bulk results; csv and table flatten the geolocation fields into
+ * columns
+ */
+function writeResults(
+  environment: CLIEnvironment,
+  format: OutputFormat,
+  results: BulkLookupResponse
+): void {
+  const rows = results.map(
+    (item): Record<string, unknown> =>
+      item.status === "success"
+        ? { ...item.data, ip: item.ip, status: item.status }
+        : {
+            ip: item.ip,
+            status: item.status,
+            error_message: item.error_message,
+          }
+  );
+
+  let lines: string[];
+  if (format === "json") {
+    lines = [JSON.stringify(results, null, 2)];
+  } else if (format === "ndjson") {
+    lines = results.map((item) => JSON.stringify(item));
+  } else if (format === "csv") {
+    const columns = new Set<string>(["ip", "status"]);
+    rows.forEach((row) => Object.keys(row).forEach((key) => columns.add(key)));
+    lines = csvLines(Array.from(columns), rows);
+  } else {
+    const columns = TABLE_COLUMNS.filter((column) =>
+      rows.some((row) => row[column] !== undefined)
+    );
+    lines = tableLines([
+      columns,
+      ...rows.map((row) => columns.map((column) => text(row[column]))),
+    ]);
+  }
+  lines.forEach((line) => environment.stdout.write(`${line}\n`));
+}
+
+function csvLines(
+  columns: string[],
+  rows: Record<string, unknown>[]
+): string[] {
+  return [
+    columns,
+    ...rows.map((row) => columns.map((column) => row[column])),
+  ].map((cells) => csvLine(cells).slice(0, -1));
+}
+
+function tableLines(cells: string[][]): string[] {
+  const widths = cells[0].map((_, index) =>
+    Math.max(...cells.map((line) => line[index].length))
+  );
+  return cells.map((line) =>
+    line
+      .map((cell, index) => cell.padEnd(widths[index]))
+      .join("  ")
+      .trimEnd()
+  );
+}
+
+function text(value: unknown): string {
+  return value === undefined || value === null ? "" : String(value);
+}
+
+if (require.main === module) {
+  run(process.argv.slice(2))
+    .then((code) => {
+      process.exitCode = code;
+    })
+    .catch((error: unknown) => {
+      process.stderr.write(
+        `Error: ${error instanceof Error ? error.message : String(error)}\n`
+      );
+      process.exitCode = EXIT_CODES.UNKNOWN_ERROR;
+    });
+}
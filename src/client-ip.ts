@@ -0,0 +1,269 @@
+import type { Result } from "./index";
+import {
+  type ParsedCIDR,
+  type ParsedIP,
+  formatIP,
+  matchesPrefix,
+  normalizeIP,
+  parseCIDR,
+  parseIP,
+} from "./ip";
+
+/**
+ * Request headers: a Node.js IncomingHttpHeaders object or a WHATWG Headers
+ * instance
+ */
+export type HeaderSource =
+  | Record<string, string | string[] | undefined>
+  | { get(name: string): string | null };
+
+export interface ClientIPOptions {
+  /**
+   * Proxies allowed to report the client IP, as CIDR blocks or single
+   * addresses. Forwarding headers are ignored unless the remote address is
+   * trusted. (default: none)
+   */
+  trustedProxies?: string[];
+  /**
+   * Header that the trusted proxies set: "x-forwarded-for", "forwarded"
+   * (RFC 7239) or a header carrying a single IP, such as "cf-connecting-ip" or
+   * "x-real-ip". No other header is read, since clients can send any of them.
+   * (default "x-forwarded-for")
+   */
+  header?: string;
+}
+
+export interface ForwardedIPOptions extends ClientIPOptions {
+  /**
+   * Header that the platform sets, such as "cf-connecting-ip" on Cloudflare
+   * Workers or "x-forwarded-for" on platforms that append to it. There is no
+   * default, since a header that one platform sets is sent by clients on
+   * another.
+   */
+  header: string;
+}
+
+/**
+ * Determines the client IP of a request. The forwarding chain in the
+ * configured header is walked right to left starting at the remote address:
+ * each trusted proxy hands over to the address it reported, and the first
+ * untrusted address is the client.
+ * @param headers - Request headers
+ * @param remoteAddress - Address of the connecting socket
+ * @param options - Trusted proxies and the header they set
+ * @returns Result containing the client IP in canonical form, or an error if
+ * the chain holds an invalid or obfuscated identifier where the client IP
+ * should be
+ * @throws Error if a trusted proxy is not a valid IP address or CIDR block, or
+ * the header is not a non-empty string
+ */
+export function getClientIP(
+  headers: HeaderSource,
+  remoteAddress: string | undefined,
+  options: ClientIPOptions = {}
+): Result<string> {
+  const trusted = (options.trustedProxies ?? []).map(parseTrustedProxy);
+  const header = resolveHeader(options.header ?? "x-forwarded-for");
+
+  if (!remoteAddress) {
+    return {
+      ok: false,
+      error: {
+        type: "INVALID_INPUT",
+        message: "Client IP address is unavailable",
+      },
+    };
+  }
+
+  const remote = normalizeIP(remoteAddress.trim());
+  if (!remote.ok) return remote;
+
+  if (!isTrusted(remote.data, trusted)) {
+    return { ok: true, data: formatIP(remote.data) };
+  }
+
+  const forwarded = resolveForwarded(headers, header, trusted);
+  if (!forwarded) return { ok: true, data: formatIP(remote.data) };
+  return forwarded.ok
+    ? { ok: true, data: formatIP(forwarded.data) }
+    : forwarded;
+}
+
+/**
+ * Determines the client IP from forwarding headers alone, for runtimes where
+ * the peer is always a trusted proxy, such as the edge network of a serverless
+ * platform. The chain is walked like in getClientIP, starting at its rightmost
+ * entry.
+ * @param headers - Request headers
+ * @param options - Proxies trusted in addition to the immediate peer, and the
+ * header the platform sets
+ * @returns Result containing the client IP in canonical form, or an error if
+ * the header is missing or the chain holds an invalid or obfuscated
+ * identifier where the client IP should be
+ * @throws Error if a trusted proxy is not a valid IP address or CIDR block, or
+ * the header is not a non-empty string
+ */
+export function getForwardedIP(
+  headers: HeaderSource,
+  options: ForwardedIPOptions
+): Result<string> {
+  const trusted = (options.trustedProxies ?? []).map(parseTrustedProxy);
+  const header = resolveHeader(options.header);
+  const forwarded = resolveForwarded(headers, header, trusted);
+  if (!forwarded) {
+    return {
+      ok: false,
+      error: {
+        type: "INVALID_INPUT",
+        message: "Client IP address is unavailable",
+      },
+    };
+  }
+
+  return forwarded.ok
+    ? { ok: true, data: formatIP(forwarded.data) }
+    : forwarded;
+}
+
+/**
+ * Resolves the address reported by a trusted peer
+ * @returns Result with the client address, or undefined if the header is not
+ * present
+ */
+function resolveForwarded(
+  headers: HeaderSource,
+  header: string,
+  trusted: ParsedCIDR[]
+): Result<ParsedIP> | undefined {
+  const chain = forwardingChain(headers, header);
+  if (!chain) return undefined;
+
+  let node: Result<ParsedIP> | undefined;
+  for (let index = chain.length - 1; index >= 0; index--) {
+    node = parseNode(chain[index]);
+    if (!node.ok || !isTrusted(node.data, trusted)) break;
+  }
+  return node;
+}
+
+function resolveHeader(header: string | undefined): string {
+  if (typeof header !== "string" || header.trim() === "") {
+    throw new Error("Client IP header must be a non-empty string");
+  }
+  return header.trim().toLowerCase();
+}
+
+function parseTrustedProxy(proxy: string): ParsedCIDR {
+  if (proxy.includes("/")) {
+    const network = parseCIDR(proxy);
+    if (network.ok) return network.data;
+  } else {
+    const parsed = parseIP(proxy);
+    if (parsed.ok) {
+      return { address: parsed.data, prefix: parsed.data.bytes.length * 8 };
+    }
+  }
+
+  throw new Error(`Invalid trusted proxy: ${proxy}`);
+}
+
+function isTrusted(address: ParsedIP, trusted: ParsedCIDR[]): boolean {
+  return trusted.some(
+    (network) =>
+      network.address.family === address.family &&
+      matchesPrefix(address.bytes, network.address.bytes, network.prefix)
+  );
+}
+
+function readHeader(headers: HeaderSource, name: string): string | undefined {
+  let value: string | string[] | null | undefined;
+  if (typeof headers.get === "function") {
+    value = (headers as { get(name: string): string | null }).get(name);
+  } else {
+    const record = headers as Record<string, string | string[] | undefined>;
+    const key = Object.keys(record).find((key) => key.toLowerCase() === name);
+    value = key === undefined ? undefined : record[key];
+  }
+
+  const text = Array.isArray(value) ? value.join(", ") : value;
+  return text && text.trim() !== "" ? text.trim() : undefined;
+}
+
+/**
+ * Reads the node identifiers of the forwarding chain, client first. A header
+ * carrying a single IP is a chain of one.
+ * @param header - Lower-case header name
+ * @returns Identifiers, or undefined if the header lists none
+ */
+function forwardingChain(
+  headers: HeaderSource,
+  header: string
+): string[] | undefined {
+  const value = readHeader(headers, header);
+  if (value === undefined) return undefined;
+
+  if (header === "forwarded") {
+    return splitUnquoted(value, ",")
+      .filter((element) => element.trim() !== "")
+      .map((element) => {
+        const pair = splitUnquoted(element, ";")
+          .map((part) => part.trim())
+          .find((part) => part.slice(0, 4).toLowerCase() === "for=");
+        // A proxy that omits "for" does not disclose its client
+        return pair === undefined ? "unknown" : unquote(pair.slice(4).trim());
+      });
+  }
+
+  const entries = value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry !== "");
+  return entries.length > 0 ? entries : undefined;
+}
+
+/**
+ * Splits on a separator outside quoted strings
+ */
+function splitUnquoted(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let start = 0;
+  let quoted = false;
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (quoted && char === "\\") {
+      index++;
+    } else if (char === '"') {
+      quoted = !quoted;
+    } else if (!quoted && char === separator) {
+      parts.push(text.slice(start, index));
+      start = index + 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts;
+}
+
+function unquote(value: string): string {
+  return value.length >= 2 && value.startsWith('"') && value.endsWith('"')
+    ? value.slice(1, -1).replace(/\\(.)/g, "$1")
+    : value;
+}
+
+/**
+ * Parses one node of the chain: an IP address with an optional port, or an
+ * RFC 7239 "unknown" or obfuscated identifier such as _hidden
+ */
+function parseNode(node: string): Result<ParsedIP> {
+  if (node.toLowerCase() === "unknown" || node.startsWith("_")) {
+    return {
+      ok: false,
+      error: {
+        type: "INVALID_INPUT",
+        message: `Client IP address is hidden by a proxy: ${node}`,
+      },
+    };
+  }
+
+  // Obfuscated ports such as 192.0.2.43:_8080 carry no address information
+  return normalizeIP(node.replace(/:_[\w.-]+$/, ""));
+}
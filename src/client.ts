@@ -0,0 +1,1775 @@
+import {
+  SharedOperation,
+  abortedResult,
+  deadlineSignal,
+  raceAbort,
+} from "./abort";
+import { type BatchOptions, Batcher, resolveBatchOptions } from "./batcher";
+import { type CacheOptions, LookupCache, createCacheKey } from "./cache";
+import { classifyIP } from "./classify";
+import { mapConcurrent } from "./concurrency";
+import { formatIP, normalizeIP, parseCIDR, parseIP } from "./ip";
+import { networkAddresses, networkSize, summarizeNetwork } from "./network";
+import {
+  type IPFlarePlugin,
+  type PluginCall,
+  type PluginRequest,
+  checkPlugin,
+  runRequestHooks,
+} from "./plugins";
+import { type RateLimitOptions, TokenBucket } from "./rate-limiter";
+import { type StreamOptions, mapBatches, resolveStreamOptions } from "./stream";
+import {
+  type RetryOptions,
+  type RetryPolicy,
+  getRetryDelay,
+  parseRetryAfter,
+  resolveRetryPolicy,
+  sleep,
+} from "./retry";
+import {
+  type Transport,
+  type TransportFactory,
+  type TransportRequest,
+  type TransportResponse,
+  TransportError,
+  createFetchTransport,
+} from "./transport";
+
+export interface IPGeolocationResponse {
+  ip: string;
+  version?: string;
+  city?: string;
+  region?: string;
+  region_code?: string;
+  country_code?: string;
+  country_code_iso3?: string;
+  country_fifa_code?: string;
+  country_fips_code?: string;
+  country_name?: string;
+  country_capital?: string;
+  country_tld?: string;
+  country_emoji?: string;
+  continent_code?: string;
+  in_eu: boolean;
+  land_locked: boolean;
+  postal?: string;
+  latitude?: number;
+  longitude?: number;
+  timezone?: string;
+  utc_offset?: string;
+  country_calling_code?: string;
+  currency?: string;
+  currency_name?: string;
+  languages?: string;
+  country_area?: number;
+  asn?: string;
+  isp?: string;
+}
+
+export interface IPGeolocationError {
+  error_message: string;
+  ip: string;
+  status: "error";
+  /**
+   * Original bulk input, set when normalizeInput is enabled
+   */
+  input?: string;
+}
+
+export interface IPGeolocationSuccess {
+  ip: string;
+  status: "success";
+  data: IPGeolocationResponse;
+  /**
+   * Original bulk input, set when normalizeInput is enabled
+   */
+  input?: string;
+}
+
+export type BulkLookupResponse = (IPGeolocationSuccess | IPGeolocationError)[];
+
+// New Result Types for improved error handling
+export type ErrorType =
+  | "INVALID_IP_ADDRESS"
+  | "RESERVED_IP_ADDRESS"
+  | "GEOLOCATION_NOT_FOUND"
+  | "INTERNAL_SERVER_ERROR"
+  | "INVALID_INPUT"
+  | "UNAUTHORIZED"
+  | "QUOTA_EXCEEDED"
+  | "NO_API_KEY_PROVIDED"
+  | "NETWORK_ERROR"
+  | "TIMEOUT"
+  | "RATE_LIMITED"
+  | "ABORTED"
+  | "VALIDATION_ERROR"
+  | "UNKNOWN_ERROR";
+
+export interface ResultError {
+  type: ErrorType;
+  message: string;
+  details?: unknown;
+  /**
+   * Number of attempts made, present when a retry policy is configured
+   */
+  attempts?: number;
+}
+
+export interface SuccessResult<T> {
+  ok: true;
+  data: T;
+}
+
+export interface ErrorResult {
+  ok: false;
+  error: ResultError;
+}
+
+export type Result<T> = SuccessResult<T> | ErrorResult;
+
+export interface LookupSuccessResult
+  extends SuccessResult<IPGeolocationResponse> {
+  /**
+   * Original lookup input, set when normalizeInput is enabled
+   */
+  input?: string;
+}
+
+/**
+ * Result of a single lookup
+ */
+export type LookupResult = LookupSuccessResult | ErrorResult;
+
+// Type guards for new result types
+export function isSuccess<T>(result: Result<T>): result is SuccessResult<T> {
+  return result.ok === true;
+}
+
+export function isError<T>(result: Result<T>): result is ErrorResult {
+  return result.ok === false;
+}
+
+/**
+ * Source of geolocation data used in place of the IPFlare API
+ */
+export interface LookupBackend {
+  /**
+   * Resolves a validated IP address in canonical form
+   */
+  lookup(
+    ip: string,
+    options?: LookupOptions
+  ): Promise<Result<IPGeolocationResponse>>;
+}
+
+interface IPGeolocationBaseOptions {
+  baseURL?: string;
+  timeout?: number;
+  /**
+   * Cache successful lookups in memory, keyed by IP and included fields
+   */
+  cache?: CacheOptions<IPGeolocationResponse>;
+  /**
+   * Retry failed requests with exponential backoff
+   */
+  retry?: RetryOptions;
+  /**
+   * Throttle outgoing requests with a client-side token bucket
+   */
+  rateLimit?: RateLimitOptions;
+  /**
+   * Collect single lookups made within a short window into bulk requests
+   */
+  batch?: BatchOptions;
+  /**
+   * Answer private, loopback, link-local and other special-purpose addresses
+   * with RESERVED_IP_ADDRESS without a request (default false)
+   */
+  rejectReservedIPs?: boolean;
+  /**
+   * Accept log-style inputs such as 1.2.3.4:51234 and [2001:db8::1]:443,
+   * unwrap IPv4-mapped addresses to IPv4 and report the original input next to
+   * each result (default false)
+   */
+  normalizeInput?: boolean;
+  /**
+   * HTTP stack used for API requests: "axios", "fetch" or a factory returning
+   * a custom Transport (default "axios", or "fetch" from "ipflare/edge", which
+   * has no axios transport)
+   */
+  transport?: "axios" | "fetch" | TransportFactory;
+  /**
+   * Plugins whose hooks observe or change API requests and lookup Results
+   */
+  plugins?: IPFlarePlugin[];
+}
+
+/**
+ * Client options. An API key is required unless a local backend is configured.
+ */
+export type IPGeolocationOptions = IPGeolocationBaseOptions &
+  (
+    | {
+        /**
+         * API key for the IPFlare API
+         */
+        apiKey: string;
+        /**
+         * Answer lookups from a local source such as OfflineBackend instead of
+         * the API
+         */
+        backend?: LookupBackend;
+      }
+    | { backend: LookupBackend; apiKey?: string }
+  );
+
+export interface LookupOptions {
+  /**
+   * Include additional fields in the response
+   */
+  include?: {
+    asn?: boolean;
+    isp?: boolean;
+  };
+  /**
+   * Cancels the lookup, including queued retries, batches and rate limit
+   * waits; the Result is then an ABORTED error
+   */
+  signal?: AbortSignal;
+  /**
+   * Timeout in milliseconds for each HTTP request of this call, in place of the
+   * client timeout. Batched lookups use the client timeout.
+   */
+  timeout?: number;
+  /**
+   * Time by which the call must finish, including retries, batches and rate
+   * limit waits, as a Date or a timestamp in milliseconds. The Result is a
+   * TIMEOUT error once it passes.
+   */
+  deadline?: Date | number;
+}
+
+export interface BulkLookupOptions extends LookupOptions {
+  /**
+   * Array of IP addresses to lookup (max 500)
+   */
+  ips: string[];
+}
+
+export interface BulkLookupAllOptions extends LookupOptions {
+  /**
+   * Array of IP addresses to lookup (any length, sent in requests of 500)
+   */
+  ips: string[];
+  /**
+   * Maximum number of bulk requests in flight at once (default 4)
+   */
+  concurrency?: number;
+}
+
+export interface BulkLookupChunkError {
+  /**
+   * Position of the failed request, counting requests of 500 IPs from zero
+   */
+  index: number;
+  ips: string[];
+  error: ResultError;
+}
+
+export interface BulkLookupAllResponse {
+  /**
+   * One item per input IP, in input order. IPs from failed requests are
+   * returned as error items.
+   */
+  results: BulkLookupResponse;
+  failedChunks: BulkLookupChunkError[];
+}
+
+export interface StreamLookupOptions
+  extends Omit<LookupOptions, "signal" | "deadline">,
+    StreamOptions {}
+
+export interface NetworkLookupOptions extends LookupOptions {
+  /**
+   * Maximum number of addresses to look up (default 256). Smaller networks are
+   * looked up in full; larger ones are sampled at evenly spaced addresses.
+   */
+  sample?: number;
+  /**
+   * Maximum number of bulk requests in flight at once (default 4)
+   */
+  concurrency?: number;
+}
+
+export interface NetworkSummary {
+  /**
+   * Network in canonical CIDR notation, e.g. "192.0.2.0/24"
+   */
+  network: string;
+  /**
+   * Number of addresses in the network
+   */
+  totalAddresses: number;
+  /**
+   * Number of addresses looked up
+   */
+  sampled: number;
+  /**
+   * Number of addresses with geolocation data
+   */
+  resolved: number;
+  /**
+   * Resolved addresses per country code
+   */
+  countries: Record<string, number>;
+  /**
+   * Resolved addresses per ASN (only populated when include.asn is set)
+   */
+  asns: Record<string, number>;
+  /**
+   * true when every resolved address has the same country, region, city and
+   * ASN
+   */
+  uniform: boolean;
+}
+
+export interface NetworkLookupResponse {
+  summary: NetworkSummary;
+  /**
+   * One item per looked up address, in ascending address order
+   */
+  results: BulkLookupResponse;
+}
+
+// Type guard for error responses
+export function isIPGeolocationError(
+  response: IPGeolocationSuccess | IPGeolocationError
+): response is IPGeolocationError {
+  return response.status === "error";
+}
+
+// Type guard for success responses
+export function isIPGeolocationSuccess(
+  response: IPGeolocationSuccess | IPGeolocationError
+): response is IPGeolocationSuccess {
+  return response.status === "success";
+}
+
+// Maximum number of IPs the bulk endpoint accepts per request
+const MAX_BULK_IPS = 500;
+
+/**
+ * Maps an API error message to the matching error type
+ * @param apiError - Error message returned by the API
+ * @returns Error type for the message
+ */
+function classifyApiError(apiError: string): ErrorType {
+  if (apiError.includes("invalid") && apiError.includes("ip")) {
+    return "INVALID_IP_ADDRESS";
+  }
+  if (apiError.includes("reserved")) {
+    return "RESERVED_IP_ADDRESS";
+  }
+  if (apiError.includes("geolocation") || apiError.includes("not found")) {
+    return "GEOLOCATION_NOT_FOUND";
+  }
+  if (apiError.includes("api key")) {
+    return "NO_API_KEY_PROVIDED";
+  }
+  if (apiError.includes("input")) {
+    return "INVALID_INPUT";
+  }
+  return "UNKNOWN_ERROR";
+}
+
+/**
+ * Converts one item of a bulk response to the Result a single lookup returns
+ * @param item - Bulk response item
+ * @returns Result containing geolocation data or error
+ */
+function toItemResult(
+  item: IPGeolocationSuccess | IPGeolocationError
+): Result<IPGeolocationResponse> {
+  if (isIPGeolocationSuccess(item)) {
+    return {
+      ok: true,
+      data: item.data,
+    };
+  }
+
+  return {
+    ok: false,
+    error: {
+      type: classifyApiError(item.error_message),
+      message: item.error_message,
+      details: item,
+    },
+  };
+}
+
+/**
+ * Reads the IP a bulk response item was returned for
+ * @param item - Bulk response item
+ * @returns The item's IP in canonical form, or as returned if it is not valid
+ */
+function itemIP(item: IPGeolocationSuccess | IPGeolocationError): string {
+  const parsed = parseIP(String(item.ip));
+  return parsed.ok ? formatIP(parsed.data) : String(item.ip);
+}
+
+/**
+ * Matches the items of a bulk response to the requested IPs by their ip field,
+ * so a reordered item is never taken for another IP's result. Items whose ip
+ * matches no requested IP fill the remaining places in order.
+ * @param ips - Requested IPs in canonical form
+ * @param items - Items returned for the request
+ * @returns The item for each requested IP, in request order, or undefined
+ * where none is left
+ */
+function matchBulkItems(
+  ips: string[],
+  items: BulkLookupResponse
+): (IPGeolocationSuccess | IPGeolocationError | undefined)[] {
+  const requested = new Set(ips);
+  const byIP = new Map<string, (IPGeolocationSuccess | IPGeolocationError)[]>();
+  const unmatched: (IPGeolocationSuccess | IPGeolocationError)[] = [];
+  items.forEach((item) => {
+    const ip = itemIP(item);
+    if (requested.has(ip)) byIP.set(ip, [...(byIP.get(ip) ?? []), item]);
+    else unmatched.push(item);
+  });
+
+  // Repeated IPs take their items in order
+  return ips
+    .map((ip) => byIP.get(ip)?.shift())
+    .map((item) => item ?? unmatched.shift());
+}
+
+/**
+ * Validates the per-call timeout and deadline
+ * @param options - Lookup options
+ * @returns INVALID_INPUT error if either is invalid, otherwise undefined
+ */
+function checkTimeouts(options: LookupOptions): ErrorResult | undefined {
+  const { timeout, deadline } = options;
+  if (
+    timeout !== undefined &&
+    !(typeof timeout === "number" && Number.isFinite(timeout) && timeout > 0)
+  ) {
+    return {
+      ok: false,
+      error: {
+        type: "INVALID_INPUT",
+        message: "Timeout must be a positive number",
+      },
+    };
+  }
+
+  if (
+    deadline !== undefined &&
+    (!(deadline instanceof Date || typeof deadline === "number") ||
+      Number.isNaN(new Date(deadline).getTime()))
+  ) {
+    return {
+      ok: false,
+      error: {
+        type: "INVALID_INPUT",
+        message: "Deadline must be a Date or a timestamp",
+      },
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Maps an HTTP error response to an ErrorResult
+ * @param response - Response with a status of 400 or above
+ * @returns ErrorResult describing the failure
+ */
+function toHttpErrorResult(response: TransportResponse): ErrorResult {
+  if (response.status === 401) {
+    return {
+      ok: false,
+      error: {
+        type: "UNAUTHORIZED",
+        message: "Invalid API key",
+        details: response.body,
+      },
+    };
+  }
+  if (response.status === 429) {
+    return {
+      ok: false,
+      error: {
+        type: "QUOTA_EXCEEDED",
+        message: "Quota exceeded",
+        details: response.body,
+      },
+    };
+  }
+  if (response.status === 500) {
+    return {
+      ok: false,
+      error: {
+        type: "INTERNAL_SERVER_ERROR",
+        message: "Internal server error",
+        details: response.body,
+      },
+    };
+  }
+
+  const apiError = (response.body as { error?: unknown } | undefined)?.error;
+  if (apiError) {
+    return {
+      ok: false,
+      error: {
+        type: classifyApiError(String(apiError)),
+        message: String(apiError),
+        details: response.body,
+      },
+    };
+  }
+  return {
+    ok: false,
+    error: {
+      type: "NETWORK_ERROR",
+      message: "Network error occurred",
+      details: {
+        status: response.status,
+        statusText: response.statusText,
+      },
+    },
+  };
+}
+
+/**
+ * Maps an error thrown by a transport to an ErrorResult
+ * @param error - TransportError or an error thrown by the surrounding code
+ * @returns ErrorResult describing the failure
+ */
+function toErrorResult(error: unknown): ErrorResult {
+  if (error instanceof TransportError && error.timedOut) {
+    return {
+      ok: false,
+      error: {
+        type: "TIMEOUT",
+        message: "Request timed out",
+        details: { message: error.message },
+      },
+    };
+  }
+  if (error instanceof TransportError) {
+    return {
+      ok: false,
+      error: {
+        type: "NETWORK_ERROR",
+        message: "Network error occurred",
+        details: { status: undefined, statusText: undefined },
+      },
+    };
+  }
+  return {
+    ok: false,
+    error: {
+      type: "UNKNOWN_ERROR",
+      message: "An unexpected error occurred",
+      details: error,
+    },
+  };
+}
+
+/**
+ * Looks up an IP in a backend, reporting a thrown error like a transport error
+ * @param backend - Backend to query
+ * @param ip - Validated IP address in canonical form
+ * @param options - Fields to include and abort signal
+ * @returns Promise with the backend's Result, or UNKNOWN_ERROR if it throws
+ */
+async function lookupBackend(
+  backend: LookupBackend,
+  ip: string,
+  options: LookupOptions
+): Promise<Result<IPGeolocationResponse>> {
+  try {
+    return await backend.lookup(ip, options);
+  } catch (error) {
+    return toErrorResult(error);
+  }
+}
+
+/**
+ * Builds the query parameters for the optional fields of a lookup
+ * @param include - Optional fields to include
+ * @returns Query parameters for the request
+ */
+function buildParams(
+  include?: LookupOptions["include"]
+): Record<string, string> {
+  const params: Record<string, string> = {};
+  const fields: string[] = [];
+
+  if (include?.asn) fields.push("asn");
+  if (include?.isp) fields.push("isp");
+
+  if (fields.length > 0) {
+    params.fields = fields.join(",");
+  }
+
+  return params;
+}
+
+export class IPFlare {
+  /**
+   * Transports that can be chosen by name, and the one used by default.
+   * The main entry point adds axios.
+   */
+  protected static transports: Partial<
+    Record<"axios" | "fetch", TransportFactory>
+  > = { fetch: (config) => createFetchTransport(config) };
+  protected static defaultTransport: "axios" | "fetch" = "fetch";
+
+  private readonly transport: Transport;
+  private readonly plugins: IPFlarePlugin[];
+  private readonly apiKey: string;
+  private readonly backend?: LookupBackend;
+  private readonly rejectReservedIPs: boolean;
+  private readonly normalizeInput: boolean;
+  private readonly cache?: LookupCache<IPGeolocationResponse>;
+  private readonly retry?: RetryPolicy;
+  private readonly inFlight = new Map<
+    string,
+    SharedOperation<IPGeolocationResponse>
+  >();
+  private readonly batch?: Required<BatchOptions>;
+  private readonly batchers = new Map<
+    string,
+    Batcher<string, Result<IPGeolocationResponse>>
+  >();
+  private readonly rateLimit?: {
+    bucket: TokenBucket;
+    queue: boolean;
+    bulkCost: number;
+  };
+
+  constructor(options: IPGeolocationOptions) {
+    if (!options.backend) {
+      if (!options.apiKey) {
+        throw new Error("API key is required");
+      }
+
+      if (typeof options.apiKey !== "string") {
+        throw new TypeError("API key must be a string");
+      }
+
+      if (options.apiKey.trim().length === 0) {
+        throw new Error("API key cannot be empty");
+      }
+    }
+
+    this.apiKey = options.apiKey ?? "";
+    this.backend = options.backend;
+    this.rejectReservedIPs = options.rejectReservedIPs ?? false;
+    this.normalizeInput = options.normalizeInput ?? false;
+
+    const { transports, defaultTransport } = new.target;
+    const transport = options.transport ?? defaultTransport;
+    const config = {
+      baseURL: options.baseURL || "https://api.ipflare.io",
+      timeout: options.timeout || 10000,
+      headers: {
+        "X-API-Key": this.apiKey,
+        "Content-Type": "application/json",
+      },
+    };
+    if (typeof transport === "function") {
+      this.transport = transport(config);
+    } else if (transport !== "axios" && transport !== "fetch") {
+      throw new Error(
+        'Transport must be "axios", "fetch" or a transport factory'
+      );
+    } else {
+      const factory = transports[transport];
+      if (!factory) {
+        throw new Error(
+          `The ${transport} transport is not available from this entry point`
+        );
+      }
+      this.transport = factory(config);
+    }
+
+    if (options.plugins !== undefined && !Array.isArray(options.plugins)) {
+      throw new Error("Plugins must be an array");
+    }
+    this.plugins = (options.plugins ?? []).map(checkPlugin);
+
+    if (options.cache) {
+      this.cache = new LookupCache<IPGeolocationResponse>(options.cache);
+    }
+
+    if (options.retry) {
+      this.retry = resolveRetryPolicy(options.retry);
+    }
+
+    if (options.batch) {
+      this.batch = resolveBatchOptions(options.batch);
+    }
+
+    if (options.rateLimit) {
+      const bucket = new TokenBucket(options.rateLimit);
+      const bulkCost = options.rateLimit.bulkCost ?? 1;
+
+      if (typeof bulkCost !== "number" || !(bulkCost > 0)) {
+        throw new Error("Rate limit bulkCost must be a positive number");
+      }
+
+      if (bulkCost > bucket.burst) {
+        throw new Error("Rate limit bulkCost cannot exceed burst");
+      }
+
+      this.rateLimit = {
+        bucket,
+        queue: options.rateLimit.queue ?? true,
+        bulkCost,
+      };
+    }
+  }
+
+  /**
+   * Registers a plugin whose hooks run after those registered before it
+   * @param plugin - Object of lifecycle hooks
+   * @returns The client, for chaining
+   * @throws Error if the plugin or one of its hooks is invalid
+   */
+  use(plugin: IPFlarePlugin): this {
+    this.plugins.push(checkPlugin(plugin));
+    return this;
+  }
+
+  /**
+   * Get geolocation data for a single IP address
+   * @param ip - IP address to lookup
+   * @param options - Additional options for the lookup
+   * @returns Promise with Result containing geolocation data or error
+   */
+  async lookup(ip: string, options: LookupOptions = {}): Promise<LookupResult> {
+    return this.reportResult(
+      { method: "lookup", ip },
+      this.lookupIP(ip, options)
+    );
+  }
+
+  /**
+   * Validates and resolves the IP of a lookup call
+   * @param ip - Untrusted IP address input
+   * @param options - Additional options for the lookup
+   * @returns Promise with Result containing geolocation data or error
+   */
+  private async lookupIP(
+    ip: string,
+    options: LookupOptions
+  ): Promise<LookupResult> {
+    // Validation checks
+    if (!ip) {
+      return {
+        ok: false,
+        error: {
+          type: "INVALID_INPUT",
+          message: "IP address is required",
+        },
+      };
+    }
+
+    if (typeof ip !== "string") {
+      return {
+        ok: false,
+        error: {
+          type: "INVALID_INPUT",
+          message: "IP address must be a string",
+        },
+      };
+    }
+
+    const trimmedIP = ip.trim();
+
+    // Check if the IP contains control characters or non-space whitespace
+    if (
+      ip.includes("\n") ||
+      ip.includes("\r") ||
+      ip.includes("\t") ||
+      ip.includes("\0")
+    ) {
+      return {
+        ok: false,
+        error: {
+          type: "INVALID_IP_ADDRESS",
+          message: `Invalid IP address format: ${ip}`,
+        },
+      };
+    }
+
+    const parsed = this.normalizeInput
+      ? normalizeIP(trimmedIP)
+      : parseIP(trimmedIP);
+    if (!parsed.ok) {
+      return {
+        ok: false,
+        error: {
+          type: "INVALID_IP_ADDRESS",
+          message: `Invalid IP address format: ${ip}`,
+        },
+      };
+    }
+
+    const invalid = checkTimeouts(options);
+    if (invalid) return invalid;
+
+    const { include, signal, timeout, deadline } = options;
+    if (signal?.aborted) return abortedResult(signal);
+
+    const call = deadlineSignal(signal, deadline);
+    let result: Result<IPGeolocationResponse>;
+    try {
+      result = await this.resolveLookup(
+        formatIP(parsed.data),
+        include,
+        call.signal,
+        timeout
+      );
+    } finally {
+      call.clear();
+    }
+    if (!this.normalizeInput || !result.ok) return result;
+
+    return {
+      ok: true,
+      data: result.data,
+      input: ip,
+    };
+  }
+
+  /**
+   * Resolves a validated IP from the reserved ranges, the cache, an in-flight
+   * request or a new request
+   * @param ip - Validated IP address in canonical form
+   * @param include - Optional fields to include
+   * @param signal - Caller's abort signal
+   * @param timeout - Per-request timeout in milliseconds
+   * @returns Promise with Result containing geolocation data or error
+   */
+  private async resolveLookup(
+    ip: string,
+    include?: LookupOptions["include"],
+    signal?: AbortSignal,
+    timeout?: number
+  ): Promise<Result<IPGeolocationResponse>> {
+    const reserved = this.checkReserved(ip);
+    if (reserved) return reserved;
+
+    const cacheKey = createCacheKey(ip, include);
+    const cached = await this.cache?.get(cacheKey);
+    if (cached) {
+      if (cached.stale) this.revalidate([ip], include);
+      return {
+        ok: true,
+        data: cached.value,
+      };
+    }
+
+    if (signal?.aborted) return abortedResult(signal);
+
+    // Share one request between concurrent lookups of the same IP and fields;
+    // it is only cancelled once every caller has aborted
+    const inFlight = this.inFlight.get(cacheKey);
+    if (inFlight && !inFlight.aborted) return inFlight.join(signal);
+
+    const operation = new SharedOperation<IPGeolocationResponse>(
+      async (shared) => {
+        try {
+          const result = this.batch
+            ? await this.loadBatched(this.batch, ip, include, shared)
+            : await this.fetchLookup(ip, include, shared, timeout);
+          if (result.ok) await this.cache?.set(cacheKey, result.data);
+          return result;
+        } finally {
+          if (this.inFlight.get(cacheKey) === operation) {
+            this.inFlight.delete(cacheKey);
+          }
+        }
+      },
+      signal
+    );
+
+    this.inFlight.set(cacheKey, operation);
+    return operation.join(signal);
+  }
+
+  /**
+   * Get geolocation data for multiple IP addresses
+   * @param options - Options for bulk lookup including IPs array and additional fields
+   * @returns Promise with Result containing array of geolocation data or error
+   */
+  async bulkLookup(
+    options: BulkLookupOptions
+  ): Promise<Result<BulkLookupResponse>> {
+    return this.reportResult(
+      { method: "bulkLookup", ips: options.ips },
+      this.lookupIPs(options)
+    );
+  }
+
+  /**
+   * Validates and resolves the IPs of a bulkLookup call
+   * @param options - Options for bulk lookup including IPs array and additional fields
+   * @returns Promise with Result containing array of geolocation data or error
+   */
+  private async lookupIPs(
+    options: BulkLookupOptions
+  ): Promise<Result<BulkLookupResponse>> {
+    const { ips, include, signal, timeout, deadline } = options;
+
+    // Validation checks
+    if (!Array.isArray(ips)) {
+      return {
+        ok: false,
+        error: {
+          type: "INVALID_INPUT",
+          message: "IPs must be an array",
+        },
+      };
+    }
+
+    if (!ips.length) {
+      return {
+        ok: false,
+        error: {
+          type: "INVALID_INPUT",
+          message: "At least one IP address is required",
+        },
+      };
+    }
+
+    if (ips.length > MAX_BULK_IPS) {
+      return {
+        ok: false,
+        error: {
+          type: "INVALID_INPUT",
+          message: "Maximum of 500 IPs per request allowed",
+        },
+      };
+    }
+
+    const invalid = checkTimeouts(options);
+    if (invalid) return invalid;
+
+    const canonicalIPs = this.canonicalizeIPs(ips);
+    if (!canonicalIPs.ok) return canonicalIPs;
+
+    if (signal?.aborted) return abortedResult(signal);
+
+    const call = deadlineSignal(signal, deadline);
+    let result: Result<BulkLookupResponse>;
+    try {
+      result = await this.resolveBulk(
+        canonicalIPs.data,
+        include,
+        call.signal,
+        timeout
+      );
+    } finally {
+      call.clear();
+    }
+    if (!this.normalizeInput || !result.ok) return result;
+
+    return {
+      ok: true,
+      data: this.withInputs(result.data, ips),
+    };
+  }
+
+  /**
+   * Get geolocation data for any number of IP addresses. The IPs are split into
+   * requests of up to 500, sent with bounded concurrency and merged back in
+   * input order. A failed request does not fail the run: its IPs are returned as
+   * error items and the failure is reported in `failedChunks`.
+   * @param options - Options for the lookup including IPs array and concurrency
+   * @returns Promise with Result containing the merged results or error
+   */
+  async bulkLookupAll(
+    options: BulkLookupAllOptions
+  ): Promise<Result<BulkLookupAllResponse>> {
+    const {
+      ips,
+      include,
+      signal,
+      timeout,
+      deadline,
+      concurrency = 4,
+    } = options;
+
+    // Validation checks
+    if (!Array.isArray(ips)) {
+      return {
+        ok: false,
+        error: {
+          type: "INVALID_INPUT",
+          message: "IPs must be an array",
+        },
+      };
+    }
+
+    if (!ips.length) {
+      return {
+        ok: false,
+        error: {
+          type: "INVALID_INPUT",
+          message: "At least one IP address is required",
+        },
+      };
+    }
+
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      return {
+        ok: false,
+        error: {
+          type: "INVALID_INPUT",
+          message: "Concurrency must be a positive integer",
+        },
+      };
+    }
+
+    const invalid = checkTimeouts(options);
+    if (invalid) return invalid;
+
+    const canonicalIPs = this.canonicalizeIPs(ips);
+    if (!canonicalIPs.ok) return canonicalIPs;
+
+    const chunks: string[][] = [];
+    for (
+      let start = 0;
+      start < canonicalIPs.data.length;
+      start += MAX_BULK_IPS
+    ) {
+      chunks.push(canonicalIPs.data.slice(start, start + MAX_BULK_IPS));
+    }
+
+    if (signal?.aborted) return abortedResult(signal);
+
+    const call = deadlineSignal(signal, deadline);
+    let chunkResults: Result<BulkLookupResponse>[];
+    try {
+      chunkResults = await mapConcurrent(chunks, concurrency, (chunk) =>
+        this.resolveBulk(chunk, include, call.signal, timeout)
+      );
+    } finally {
+      call.clear();
+    }
+    if (call.signal?.aborted) return abortedResult(call.signal);
+
+    const results: BulkLookupResponse = [];
+    const failedChunks: BulkLookupChunkError[] = [];
+    chunkResults.forEach((chunkResult, index) => {
+      if (chunkResult.ok) {
+        results.push(...chunkResult.data);
+        return;
+      }
+
+      failedChunks.push({
+        index,
+        ips: chunks[index],
+        error: chunkResult.error,
+      });
+      results.push(
+        ...chunks[index].map(
+          (ip): IPGeolocationError => ({
+            ip,
+            status: "error",
+            error_message: chunkResult.error.message,
+          })
+        )
+      );
+    });
+
+    if (failedChunks.length === chunks.length) {
+      return {
+        ok: false,
+        error: {
+          ...failedChunks[0].error,
+          details: { failedChunks },
+        },
+      };
+    }
+
+    return {
+      ok: true,
+      data: {
+        results: this.normalizeInput ? this.withInputs(results, ips) : results,
+        failedChunks,
+      },
+    };
+  }
+
+  /**
+   * Get geolocation data for a stream of IP addresses of any length. Inputs are
+   * collected into bulk requests that run with bounded concurrency, and the
+   * source is only read as fast as results are consumed. Invalid inputs and
+   * failed requests are yielded as error items instead of ending the stream.
+   * @param source - Sync or async iterable of IP addresses
+   * @param options - Batching, ordering and additional fields
+   * @returns Async generator yielding one item per input
+   * @throws Error if the stream options are invalid
+   */
+  async *lookupStream(
+    source: AsyncIterable<string> | Iterable<string>,
+    options: StreamLookupOptions = {}
+  ): AsyncGenerator<
+    IPGeolocationSuccess | IPGeolocationError,
+    void,
+    undefined
+  > {
+    const { include, timeout, ...streamOptions } = options;
+    yield* mapBatches(source, resolveStreamOptions(streamOptions), (inputs) =>
+      this.resolveStreamBatch(inputs, include, timeout)
+    );
+  }
+
+  /**
+   * Get geolocation data for a whole CIDR block. The addresses are looked up in
+   * bulk and aggregated into a summary of countries, ASNs and uniformity.
+   * @param cidr - IPv4 or IPv6 network, e.g. "192.0.2.0/24"
+   * @param options - Sampling, concurrency and additional fields
+   * @returns Promise with Result containing the summary and per-address results
+   */
+  async lookupNetwork(
+    cidr: string,
+    options: NetworkLookupOptions = {}
+  ): Promise<Result<NetworkLookupResponse>> {
+    const {
+      sample = 256,
+      include,
+      signal,
+      timeout,
+      deadline,
+      concurrency,
+    } = options;
+
+    const network = parseCIDR(cidr);
+    if (!network.ok) return network;
+
+    if (!Number.isInteger(sample) || sample < 1) {
+      return {
+        ok: false,
+        error: {
+          type: "INVALID_INPUT",
+          message: "Sample must be a positive integer",
+        },
+      };
+    }
+
+    const result = await this.bulkLookupAll({
+      ips: networkAddresses(network.data, sample),
+      include,
+      signal,
+      timeout,
+      deadline,
+      concurrency,
+    });
+    if (!result.ok) return result;
+
+    const { address, prefix } = network.data;
+    return {
+      ok: true,
+      data: {
+        summary: summarizeNetwork(
+          `${formatIP(address)}/${prefix}`,
+          networkSize(network.data),
+          result.data.results
+        ),
+        results: result.data.results,
+      },
+    };
+  }
+
+  /**
+   * Resolves one batch of a lookup stream. Unlike bulkLookup, invalid inputs
+   * only fail their own items.
+   * @param inputs - Untrusted stream input
+   * @param include - Optional fields to include
+   * @param timeout - Per-request timeout in milliseconds
+   * @returns Promise with one item per input, in input order
+   */
+  private async resolveStreamBatch(
+    inputs: string[],
+    include?: LookupOptions["include"],
+    timeout?: number
+  ): Promise<BulkLookupResponse> {
+    const canonicalIPs = inputs.map((input) => this.canonicalizeIP(input));
+    const validIPs = canonicalIPs.filter(
+      (ip): ip is string => ip !== undefined
+    );
+    const response: Result<BulkLookupResponse> =
+      validIPs.length > 0
+        ? await this.resolveBulk(validIPs, include, undefined, timeout)
+        : { ok: true, data: [] };
+
+    let next = 0;
+    const results = inputs.map(
+      (input, index): IPGeolocationSuccess | IPGeolocationError => {
+        const ip = canonicalIPs[index];
+        if (ip === undefined) {
+          return {
+            ip: String(input),
+            status: "error",
+            error_message: `Invalid IP address format: ${input}`,
+          };
+        }
+
+        if (!response.ok) {
+          return { ip, status: "error", error_message: response.error.message };
+        }
+        return (
+          response.data[next++] ?? {
+            ip,
+            status: "error",
+            error_message: `No result returned for ${ip}`,
+          }
+        );
+      }
+    );
+
+    return this.normalizeInput ? this.withInputs(results, inputs) : results;
+  }
+
+  /**
+   * Records the original input next to each bulk result
+   * @param results - Results in input order
+   * @param inputs - Original bulk input
+   * @returns Results with the input field set
+   */
+  private withInputs(
+    results: BulkLookupResponse,
+    inputs: string[]
+  ): BulkLookupResponse {
+    return results.map((item, index) => ({ ...item, input: inputs[index] }));
+  }
+
+  /**
+   * Validates one untrusted input and converts it to canonical form
+   * @param ip - Untrusted input
+   * @returns Canonical IP address, or undefined if the input is invalid
+   */
+  private canonicalizeIP(ip: unknown): string | undefined {
+    if (typeof ip !== "string") return undefined;
+    // Check if IP contains control characters or is invalid format
+    const hasControlChars =
+      ip.includes("\n") ||
+      ip.includes("\r") ||
+      ip.includes("\t") ||
+      ip.includes("\0");
+    const parsed = this.normalizeInput
+      ? normalizeIP(ip.trim())
+      : parseIP(ip.trim());
+    return hasControlChars || !parsed.ok ? undefined : formatIP(parsed.data);
+  }
+
+  /**
+   * Checks every entry of a bulk request for a valid IP address
+   * @param ips - Untrusted bulk input
+   * @returns Result containing the IPs in canonical form, or an error listing
+   * the invalid entries
+   */
+  private canonicalizeIPs(ips: unknown[]): Result<string[]> {
+    const canonicalIPs: string[] = [];
+    const invalidIPs = ips.filter((ip) => {
+      const canonicalIP = this.canonicalizeIP(ip);
+      if (canonicalIP === undefined) return true;
+      canonicalIPs.push(canonicalIP);
+      return false;
+    });
+
+    if (invalidIPs.length > 0) {
+      return {
+        ok: false,
+        error: {
+          type: "INVALID_IP_ADDRESS",
+          message: `Invalid IP addresses found: ${invalidIPs.join(", ")}`,
+          details: { invalidIPs },
+        },
+      };
+    }
+
+    return {
+      ok: true,
+      data: canonicalIPs,
+    };
+  }
+
+  /**
+   * Resolves up to 500 validated IPs, answering reserved and cached IPs locally
+   * and requesting the rest
+   * @param canonicalIPs - Validated IP addresses in canonical form
+   * @param include - Optional fields to include
+   * @param signal - Caller's abort signal
+   * @param timeout - Per-request timeout in milliseconds
+   * @returns Promise with Result containing array of geolocation data or error
+   */
+  private async resolveBulk(
+    canonicalIPs: string[],
+    include?: LookupOptions["include"],
+    signal?: AbortSignal,
+    timeout?: number
+  ): Promise<Result<BulkLookupResponse>> {
+    const merged: (IPGeolocationSuccess | IPGeolocationError | undefined)[] =
+      canonicalIPs.map((ip): IPGeolocationError | undefined => {
+        const reserved = this.checkReserved(ip);
+        return reserved
+          ? { ip, status: "error", error_message: reserved.error.message }
+          : undefined;
+      });
+
+    // Serve what we can from the cache and only request the misses
+    const cache = this.cache;
+    if (cache) {
+      const cached = await Promise.all(
+        canonicalIPs.map((ip, index) =>
+          merged[index] ? undefined : cache.get(createCacheKey(ip, include))
+        )
+      );
+      const staleIPs = canonicalIPs.filter((_, index) => cached[index]?.stale);
+      if (staleIPs.length > 0) this.revalidate(staleIPs, include);
+
+      cached.forEach((entry, index) => {
+        if (entry) {
+          merged[index] = {
+            ip: canonicalIPs[index],
+            status: "success",
+            data: entry.value,
+          };
+        }
+      });
+    }
+
+    const missIPs = canonicalIPs.filter((_, index) => !merged[index]);
+    if (missIPs.length === 0) {
+      return {
+        ok: true,
+        data: merged as BulkLookupResponse,
+      };
+    }
+
+    const response = await this.fetchBulk(missIPs, include, signal, timeout);
+    if (!response.ok) return response;
+
+    const results = matchBulkItems(missIPs, response.data).map(
+      (item, index): IPGeolocationSuccess | IPGeolocationError =>
+        item ?? {
+          ip: missIPs[index],
+          status: "error",
+          error_message: `No result returned for ${missIPs[index]}`,
+        }
+    );
+    await this.storeResults(missIPs, results, include);
+    if (missIPs.length === canonicalIPs.length) {
+      return { ok: true, data: results };
+    }
+
+    // Results come back in request order, so fill the gaps left by misses
+    let next = 0;
+    for (let index = 0; index < merged.length; index++) {
+      if (merged[index]) continue;
+      merged[index] = results[next++];
+    }
+
+    return {
+      ok: true,
+      data: merged.filter(
+        (item): item is IPGeolocationSuccess | IPGeolocationError =>
+          item !== undefined
+      ),
+    };
+  }
+
+  /**
+   * Answers special-purpose addresses locally when rejectReservedIPs is enabled
+   * @param ip - Validated IP address in canonical form
+   * @returns ErrorResult for reserved addresses, otherwise undefined
+   */
+  private checkReserved(ip: string): ErrorResult | undefined {
+    if (!this.rejectReservedIPs) return undefined;
+
+    const scope = classifyIP(ip);
+    if (scope === undefined || scope === "public") return undefined;
+
+    return {
+      ok: false,
+      error: {
+        type: "RESERVED_IP_ADDRESS",
+        message: `${ip} is a reserved IP address (${scope})`,
+        details: { scope },
+      },
+    };
+  }
+
+  /**
+   * Sends a single lookup request to the API
+   * @param ip - Validated IP address in canonical form
+   * @param include - Optional fields to include
+   * @param signal - Abort signal for the request
+   * @param timeout - Request timeout in milliseconds (default: client timeout)
+   * @returns Promise with Result containing geolocation data or error
+   */
+  private async fetchLookup(
+    ip: string,
+    include?: LookupOptions["include"],
+    signal?: AbortSignal,
+    timeout?: number
+  ): Promise<Result<IPGeolocationResponse>> {
+    if (this.backend) {
+      return raceAbort(
+        lookupBackend(this.backend, ip, { include, signal }),
+        signal
+      );
+    }
+
+    return this.send<IPGeolocationResponse>(
+      {
+        method: "GET",
+        path: `/${ip}`,
+        params: buildParams(include),
+        signal,
+        timeout,
+      },
+      1,
+      signal
+    );
+  }
+
+  /**
+   * Adds a lookup to the pending batch for its included fields
+   * @param batch - Batching configuration
+   * @param ip - Validated IP address in canonical form
+   * @param include - Optional fields to include
+   * @param signal - Abort signal that drops the lookup from a pending batch
+   * @returns Promise with Result containing geolocation data or error
+   */
+  private loadBatched(
+    batch: Required<BatchOptions>,
+    ip: string,
+    include?: LookupOptions["include"],
+    signal?: AbortSignal
+  ): Promise<Result<IPGeolocationResponse>> {
+    const key = createCacheKey("", include);
+    let batcher = this.batchers.get(key);
+
+    if (!batcher) {
+      batcher = new Batcher(batch, async (ips) => {
+        const result = await this.fetchBulk(ips, include);
+        if (!result.ok) return ips.map(() => result);
+
+        const items = matchBulkItems(ips, result.data);
+        return ips.map((ip, index): Result<IPGeolocationResponse> => {
+          const item = items[index];
+          return item && itemIP(item) === ip
+            ? toItemResult(item)
+            : {
+                ok: false,
+                error: {
+                  type: "INTERNAL_SERVER_ERROR",
+                  message: `No result returned for ${ip}`,
+                },
+              };
+        });
+      });
+      this.batchers.set(key, batcher);
+    }
+
+    // A dispatched batch also serves other callers, so it is not cancelled
+    return raceAbort(
+      batcher
+        .load(ip, signal)
+        .then((result) => result ?? abortedResult(signal), toErrorResult),
+      signal
+    );
+  }
+
+  /**
+   * Sends a bulk lookup request to the API
+   * @param ips - Validated IP addresses in canonical form
+   * @param include - Optional fields to include
+   * @param signal - Abort signal for the request
+   * @param timeout - Request timeout in milliseconds (default: client timeout)
+   * @returns Promise with Result containing array of geolocation data or error
+   */
+  private async fetchBulk(
+    ips: string[],
+    include?: LookupOptions["include"],
+    signal?: AbortSignal,
+    timeout?: number
+  ): Promise<Result<BulkLookupResponse>> {
+    if (this.backend) {
+      const backend = this.backend;
+      const results = await Promise.all(
+        ips.map((ip) => lookupBackend(backend, ip, { include, signal }))
+      );
+      if (signal?.aborted) return abortedResult(signal);
+
+      return {
+        ok: true,
+        data: results.map(
+          (result, index): IPGeolocationSuccess | IPGeolocationError =>
+            result.ok
+              ? { ip: ips[index], status: "success", data: result.data }
+              : {
+                  ip: ips[index],
+                  status: "error",
+                  error_message: result.error.message,
+                }
+        ),
+      };
+    }
+
+    const result = await this.send<{ results: BulkLookupResponse }>(
+      {
+        method: "POST",
+        path: "/bulk-lookup",
+        params: buildParams(include),
+        body: { ips },
+        signal,
+        timeout,
+      },
+      this.rateLimit?.bulkCost,
+      signal
+    );
+    if (!result.ok) return result;
+
+    if (!result.data?.results || !Array.isArray(result.data.results)) {
+      return {
+        ok: false,
+        error: {
+          type: "INTERNAL_SERVER_ERROR",
+          message: "Invalid response format from API",
+          details: result.data,
+        },
+      };
+    }
+
+    return {
+      ok: true,
+      data: result.data.results,
+    };
+  }
+
+  /**
+   * Performs an API request through the plugin hooks, retrying failures
+   * according to the retry policy
+   * @param request - Request to send
+   * @param cost - Rate limit tokens each attempt consumes
+   * @param signal - Abort signal that also ends rate limit waits and retries
+   * @returns Promise with Result containing the response body or error
+   */
+  private async send<T>(
+    request: TransportRequest,
+    cost = 1,
+    signal?: AbortSignal
+  ): Promise<Result<T>> {
+    for (let attempt = 1; ; attempt++) {
+      const hooked: PluginRequest = {
+        method: request.method,
+        path: request.path,
+        params: { ...request.params },
+        body: request.body,
+        timeout: request.timeout,
+        headers: {},
+        attempt,
+      };
+      // With a retry policy, every error reports the attempts made so far
+      const failed = (result: ErrorResult): ErrorResult =>
+        this.retry
+          ? { ok: false, error: { ...result.error, attempts: attempt } }
+          : result;
+
+      let result: ErrorResult;
+      let retryAfter: number | undefined;
+      try {
+        // Answered requests skip the rate limit, like cache hits
+        const answered = await runRequestHooks(this.plugins, hooked);
+        if (answered) {
+          return answered.ok ? (answered as Result<T>) : failed(answered);
+        }
+
+        // A client-side rate limit fails the attempt like a 429 would, so
+        // onError and the retry policy see it
+        const limited = await this.throttle(cost, signal);
+        if (limited) {
+          result = limited;
+          retryAfter = this.rateLimit?.bucket.waitTime(cost);
+        } else {
+          if (signal?.aborted) return failed(abortedResult(signal));
+
+          const response = await this.transport.request({
+            method: hooked.method,
+            path: hooked.path,
+            params: hooked.params,
+            body: hooked.body,
+            signal,
+            timeout: hooked.timeout,
+            headers:
+              Object.keys(hooked.headers).length > 0
+                ? hooked.headers
+                : undefined,
+          });
+          for (const plugin of this.plugins) {
+            await plugin.onResponse?.(response, hooked);
+          }
+
+          if (response.status >= 400) {
+            result = toHttpErrorResult(response);
+            retryAfter = parseRetryAfter(response.headers["retry-after"]);
+          } else {
+            return {
+              ok: true,
+              data: response.body as T,
+            };
+          }
+        }
+      } catch (error) {
+        result = signal?.aborted ? abortedResult(signal) : toErrorResult(error);
+      }
+
+      try {
+        for (const plugin of this.plugins) {
+          await plugin.onError?.(result.error, hooked);
+        }
+      } catch (error) {
+        return failed(toErrorResult(error));
+      }
+
+      if (!this.retry || signal?.aborted) return failed(result);
+
+      const delay = getRetryDelay(
+        this.retry,
+        attempt,
+        result.error.type,
+        retryAfter
+      );
+      if (delay === undefined) return failed(result);
+
+      await sleep(delay, signal);
+      if (signal?.aborted) return failed(abortedResult(signal));
+    }
+  }
+
+  /**
+   * Passes the final Result of a call to the onResult hooks
+   * @param call - Client method and its input
+   * @param pending - Result of the call
+   * @returns Promise with the Result, or UNKNOWN_ERROR if a hook throws
+   */
+  private async reportResult<R extends Result<unknown>>(
+    call: PluginCall,
+    pending: Promise<R>
+  ): Promise<R | ErrorResult> {
+    const result = await pending;
+    try {
+      for (const plugin of this.plugins) {
+        await plugin.onResult?.(result, call);
+      }
+    } catch (error) {
+      return toErrorResult(error);
+    }
+    return result;
+  }
+
+  /**
+   * Takes rate limit tokens for a request, waiting for them if queueing is enabled
+   * @param cost - Number of tokens the request consumes
+   * @param signal - Abort signal that ends the wait
+   * @returns ErrorResult if the request must not be sent, otherwise undefined
+   */
+  private async throttle(
+    cost: number,
+    signal?: AbortSignal
+  ): Promise<ErrorResult | undefined> {
+    if (!this.rateLimit) return undefined;
+
+    const { bucket, queue } = this.rateLimit;
+    if (queue) {
+      const acquired = await bucket.acquire(cost, signal);
+      return acquired ? undefined : abortedResult(signal);
+    }
+
+    if (bucket.tryAcquire(cost)) return undefined;
+
+    return {
+      ok: false,
+      error: {
+        type: "RATE_LIMITED",
+        message: "Client-side rate limit exceeded",
+        details: { retryAfter: bucket.waitTime(cost) },
+      },
+    };
+  }
+
+  /**
+   * Writes the successful items of a bulk response to the cache, each under
+   * the IP it was returned for
+   * @param ips - IP addresses sent in the request, in request order
+   * @param results - Items returned by the API
+   * @param include - Optional fields the items were requested with
+   */
+  private async storeResults(
+    ips: string[],
+    results: BulkLookupResponse,
+    include?: LookupOptions["include"]
+  ): Promise<void> {
+    const cache = this.cache;
+    if (!cache) return;
+
+    await Promise.all(
+      matchBulkItems(ips, results).map((item, index) =>
+        item && isIPGeolocationSuccess(item) && itemIP(item) === ips[index]
+          ? cache.set(createCacheKey(ips[index], include), item.data)
+          : undefined
+      )
+    );
+  }
+
+  /**
+   * Refreshes stale cache entries in the background. Failures leave the stale
+   * entry in place until it expires.
+   * @param ips - IP addresses whose entries are stale
+   * @param include - Optional fields the entries were requested with
+   */
+  private revalidate(ips: string[], include?: LookupOptions["include"]): void {
+    const cache = this.cache;
+    if (!cache) return;
+
+    const pending = ips.filter((ip) =>
+      cache.startRevalidation(createCacheKey(ip, include))
+    );
+    if (pending.length === 0) return;
+
+    const refresh = async (): Promise<void> => {
+      if (pending.length === 1) {
+        const result = await this.fetchLookup(pending[0], include);
+        if (result.ok) {
+          await cache.set(createCacheKey(pending[0], include), result.data);
+        }
+        return;
+      }
+
+      const result = await this.fetchBulk(pending, include);
+      if (result.ok) await this.storeResults(pending, result.data, include);
+    };
+
+    // A failed refresh leaves the stale entry in place
+    refresh()
+      .catch(() => undefined)
+      .finally(() => {
+        for (const ip of pending) {
+          cache.endRevalidation(createCacheKey(ip, include));
+        }
+      });
+  }
+}
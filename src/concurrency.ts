@@ -0,0 +1,27 @@
+/**
+ * Maps items through an async function with at most `limit` calls in flight
+ * @param items - Items to map
+ * @param limit - Maximum number of concurrent calls
+ * @param fn - Async mapping function
+ * @returns Promise with the mapped values in input order
+ */
+export async function mapConcurrent<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(limit, items.length) }, worker)
+  );
+  return results;
+}
@@ -0,0 +1,123 @@
+import type {
+  IPFlare,
+  IPGeolocationResponse,
+  LookupOptions,
+  Result,
+} from "./client";
+import { type ClientIPOptions, getForwardedIP } from "./client-ip";
+
+// Entry point for edge and serverless runtimes ("ipflare/edge"). Only standard
+// Request/Response APIs are used here, and nothing reachable from this module
+// loads Node.js built-ins or axios, so it runs without Node.js compatibility.
+export {
+  type ErrorType,
+  type IPGeolocationOptions,
+  type IPGeolocationResponse,
+  type LookupOptions,
+  type LookupResult,
+  type Result,
+  type ResultError,
+  IPFlare,
+  isError,
+  isSuccess,
+} from "./client";
+export {
+  type ClientIPOptions,
+  type ForwardedIPOptions,
+  type HeaderSource,
+  getClientIP,
+  getForwardedIP,
+} from "./client-ip";
+
+interface FetchGeolocationBase extends LookupOptions, ClientIPOptions {
+  /**
+   * Resolves the client IP instead of the header option
+   */
+  getIP?: (request: Request) => string | undefined;
+}
+
+/**
+ * Lookup options plus where the client IP comes from: the header the platform
+ * sets, such as "cf-connecting-ip" on Cloudflare Workers, or a getIP function
+ */
+export type FetchGeolocationOptions = FetchGeolocationBase &
+  ({ header: string } | { getIP: (request: Request) => string | undefined });
+
+/**
+ * Fetch handler that receives the geolocation Result after the request.
+ * Further arguments, such as the env and context of Cloudflare Workers, are
+ * passed through.
+ */
+export type GeolocatedHandler<Args extends unknown[] = []> = (
+  request: Request,
+  geo: Result<IPGeolocationResponse>,
+  ...args: Args
+) => Response | Promise<Response>;
+
+/**
+ * Looks up the client IP of a WHATWG fetch Request. The lookup is cancelled
+ * with the request's signal unless options.signal is given.
+ * @param geolocator - Client used for lookups
+ * @param request - Incoming request
+ * @param options - IP resolution and lookup options
+ * @returns Promise with the lookup Result, or an INVALID_INPUT error if the
+ * client IP cannot be determined
+ * @throws Error if a trusted proxy is not a valid IP address or CIDR block, or
+ * neither header nor getIP is given
+ */
+export async function geolocateRequest(
+  geolocator: IPFlare,
+  request: Request,
+  options: FetchGeolocationOptions
+): Promise<Result<IPGeolocationResponse>> {
+  const {
+    getIP,
+    trustedProxies,
+    header,
+    signal = request.signal,
+    ...lookupOptions
+  } = options;
+
+  let ip: Result<string>;
+  if (getIP) {
+    const custom = getIP(request);
+    ip = custom
+      ? { ok: true, data: custom }
+      : {
+          ok: false,
+          error: {
+            type: "INVALID_INPUT",
+            message: "Client IP address is unavailable",
+          },
+        };
+  } else {
+    // Without getIP, FetchGeolocationOptions requires a header
+    ip = getForwardedIP(request.headers, {
+      trustedProxies,
+      header: header as string,
+    });
+  }
+
+  if (!ip.ok) return ip;
+  return geolocator.lookup(ip.data, { ...lookupOptions, signal });
+}
+
+/**
+ * Wraps a fetch handler so it receives the geolocation Result of each request
+ * @param geolocator - Client used for lookups
+ * @param handler - Handler called with the request and its geolocation
+ * @param options - IP resolution and fields to include
+ * @returns Fetch handler taking the request and any further arguments
+ */
+export function withGeolocation<Args extends unknown[] = []>(
+  geolocator: IPFlare,
+  handler: GeolocatedHandler<Args>,
+  options: FetchGeolocationOptions
+): (request: Request, ...args: Args) => Promise<Response> {
+  return async (request, ...args) =>
+    handler(
+      request,
+      await geolocateRequest(geolocator, request, options),
+      ...args
+    );
+}
@@ -0,0 +1,262 @@
+import { Transform, type TransformCallback } from "stream";
+import { StringDecoder } from "string_decoder";
+import type { BulkLookupResponse, IPFlare, LookupOptions } from "./index";
+
+export interface EnrichOptions {
+  /**
+   * Read the IP from this field of NDJSON records. When unset, every line is a
+   * plain IP address and is written out as `{ "ip": line }`.
+   */
+  field?: string;
+  /**
+   * Field that receives the geolocation data (default "geo")
+   */
+  key?: string;
+  /**
+   * Field that receives the error message of failed lookups (default
+   * `${key}_error`)
+   */
+  errorKey?: string;
+  /**
+   * Number of records looked up per bulk request (default 500, max 500)
+   */
+  batchSize?: number;
+  /**
+   * Time in milliseconds to wait for a slow source to fill a batch before
+   * looking up what has arrived (default 100)
+   */
+  flushInterval?: number;
+}
+
+export interface EnrichStreamOptions
+  extends Omit<LookupOptions, "signal" | "deadline">,
+    EnrichOptions {}
+
+/**
+ * Fills in defaults and validates an enrichment configuration
+ * @param options - Enrich options from EnrichStreamOptions
+ * @returns Complete enrich options; `field` stays optional
+ */
+export function resolveEnrichOptions(
+  options: EnrichOptions
+): EnrichOptions & Required<Omit<EnrichOptions, "field">> {
+  const key = options.key ?? "geo";
+  const resolved = {
+    field: options.field,
+    key,
+    errorKey: options.errorKey ?? `${key}_error`,
+    batchSize: options.batchSize ?? 500,
+    flushInterval: options.flushInterval ?? 100,
+  };
+
+  if (
+    resolved.field !== undefined &&
+    (typeof resolved.field !== "string" || resolved.field.length === 0)
+  ) {
+    throw new Error("Enrich field must be a non-empty string");
+  }
+
+  if (typeof resolved.key !== "string" || resolved.key.length === 0) {
+    throw new Error("Enrich key must be a non-empty string");
+  }
+
+  if (typeof resolved.errorKey !== "string" || resolved.errorKey.length === 0) {
+    throw new Error("Enrich errorKey must be a non-empty string");
+  }
+
+  if (
+    !Number.isInteger(resolved.batchSize) ||
+    resolved.batchSize < 1 ||
+    resolved.batchSize > 500
+  ) {
+    throw new Error("Enrich batchSize must be an integer between 1 and 500");
+  }
+
+  if (
+    typeof resolved.flushInterval !== "number" ||
+    !(resolved.flushInterval >= 0)
+  ) {
+    throw new Error("Enrich flushInterval must be a non-negative number");
+  }
+
+  return resolved;
+}
+
+interface PendingRecord {
+  record: Record<string, unknown>;
+  ip?: string;
+  error?: string;
+}
+
+/**
+ * Transform that reads line-delimited IPs or NDJSON records and writes NDJSON
+ * records enriched with geolocation data. Records are looked up one batch at a
+ * time, so the stream applies backpressure while a request is in flight. A
+ * partial batch is looked up once no full batch has arrived for
+ * flushInterval ms. The lookup function must resolve, never reject, with one
+ * item per IP in IP order.
+ */
+export class EnrichStream extends Transform {
+  private readonly decoder = new StringDecoder("utf8");
+  private remainder = "";
+  private pending: PendingRecord[] = [];
+  // Lookups run one after another so records keep their input order
+  private work: Promise<void> = Promise.resolve();
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(
+    private readonly options: ReturnType<typeof resolveEnrichOptions>,
+    private readonly lookup: (ips: string[]) => Promise<BulkLookupResponse>
+  ) {
+    super();
+  }
+
+  _transform(
+    chunk: Buffer,
+    _encoding: BufferEncoding,
+    callback: TransformCallback
+  ): void {
+    const lines = (this.remainder + this.decoder.write(chunk)).split("\n");
+    this.remainder = lines.pop() ?? "";
+    lines.forEach((line) => this.addLine(line));
+    this.schedule(false).then(() => {
+      this.startTimer();
+      callback();
+    }, callback);
+  }
+
+  _flush(callback: TransformCallback): void {
+    this.addLine(this.remainder + this.decoder.end());
+    this.remainder = "";
+    this.schedule(true).then(() => callback(), callback);
+  }
+
+  _destroy(
+    error: Error | null,
+    callback: (error?: Error | null) => void
+  ): void {
+    this.stopTimer();
+    callback(error);
+  }
+
+  /**
+   * Queues a drain after the lookups already in progress
+   */
+  private schedule(final: boolean): Promise<void> {
+    this.stopTimer();
+    this.work = this.work.then(() => this.drain(final));
+    return this.work;
+  }
+
+  private startTimer(): void {
+    if (this.timer || this.pending.length === 0) return;
+
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.schedule(true).catch((error) => this.destroy(error));
+    }, this.options.flushInterval);
+  }
+
+  private stopTimer(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  private addLine(line: string): void {
+    const text = line.trim();
+    if (text === "") return;
+
+    const { field } = this.options;
+    if (field === undefined) {
+      this.pending.push({ record: { ip: text }, ip: text });
+      return;
+    }
+
+    let record: unknown;
+    try {
+      record = JSON.parse(text);
+    } catch {
+      record = undefined;
+    }
+
+    if (!record || typeof record !== "object" || Array.isArray(record)) {
+      this.pending.push({
+        record: { line: text },
+        error: "Invalid JSON record",
+      });
+      return;
+    }
+
+    const fields = record as Record<string, unknown>;
+    const ip = fields[field];
+    if (typeof ip !== "string") {
+      this.pending.push({
+        record: fields,
+        error: `Field ${field} is missing or not a string`,
+      });
+      return;
+    }
+
+    this.pending.push({ record: fields, ip });
+  }
+
+  private async drain(final: boolean): Promise<void> {
+    const { batchSize } = this.options;
+    while (
+      this.pending.length >= batchSize ||
+      (final && this.pending.length > 0)
+    ) {
+      await this.enrich(this.pending.splice(0, batchSize));
+    }
+  }
+
+  private async enrich(batch: PendingRecord[]): Promise<void> {
+    const { key, errorKey } = this.options;
+    const ips = batch
+      .map((pending) => pending.ip)
+      .filter((ip): ip is string => ip !== undefined);
+    const results = ips.length > 0 ? await this.lookup(ips) : [];
+
+    let next = 0;
+    batch.forEach(({ record, ip, error }) => {
+      if (ip === undefined) {
+        record[errorKey] = error;
+      } else {
+        const item = results[next++];
+        if (item.status === "success") {
+          record[key] = item.data;
+        } else {
+          record[errorKey] = item.error_message;
+        }
+      }
+      this.push(`${JSON.stringify(record)}\n`);
+    });
+  }
+}
+
+/**
+ * Create a Transform stream that enriches line-delimited IPs or NDJSON records
+ * with geolocation data. Output is NDJSON with one record per input line;
+ * lookup failures are recorded inline under `errorKey`.
+ * @param geolocator - Client used for lookups
+ * @param options - Record fields, batch size and additional fields
+ * @returns Transform stream to pipe text into
+ * @throws Error if the enrich options are invalid
+ */
+export function createEnrichStream(
+  geolocator: IPFlare,
+  options: EnrichStreamOptions = {}
+): EnrichStream {
+  const { include, timeout, ...enrichOptions } = options;
+  return new EnrichStream(resolveEnrichOptions(enrichOptions), async (ips) => {
+    const results: BulkLookupResponse = [];
+    for await (const item of geolocator.lookupStream(ips, {
+      include,
+      timeout,
+      batchSize: ips.length,
+    })) {
+      results.push(item);
+    }
+    return results;
+  });
+}
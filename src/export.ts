@@ -0,0 +1,235 @@
+import { Transform } from "stream";
+import type {
+  BulkLookupResponse,
+  IPGeolocationError,
+  IPGeolocationResponse,
+  IPGeolocationSuccess,
+} from "./index";
+
+/**
+ * Column of an export: an IPGeolocationResponse field, or the status, error
+ * message and original input of bulk items
+ */
+export type ExportColumn =
+  | keyof IPGeolocationResponse
+  | "status"
+  | "error_message"
+  | "input";
+
+export interface ExportOptions {
+  /**
+   * Columns to write, in order (default: ip, status, every
+   * IPGeolocationResponse field, error_message)
+   */
+  columns?: ExportColumn[];
+  /**
+   * Write a header row with the column names (default true)
+   */
+  header?: boolean;
+}
+
+type ExportItem = IPGeolocationSuccess | IPGeolocationError;
+
+interface Dialect {
+  delimiter: string;
+  escape: (cell: string) => string;
+}
+
+const DEFAULT_COLUMNS: ExportColumn[] = [
+  "ip",
+  "status",
+  "version",
+  "city",
+  "region",
+  "region_code",
+  "country_code",
+  "country_code_iso3",
+  "country_fifa_code",
+  "country_fips_code",
+  "country_name",
+  "country_capital",
+  "country_tld",
+  "country_emoji",
+  "continent_code",
+  "in_eu",
+  "land_locked",
+  "postal",
+  "latitude",
+  "longitude",
+  "timezone",
+  "utc_offset",
+  "country_calling_code",
+  "currency",
+  "currency_name",
+  "languages",
+  "country_area",
+  "asn",
+  "isp",
+  "error_message",
+];
+
+const CSV: Dialect = {
+  delimiter: ",",
+  escape: (cell) =>
+    /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell,
+};
+
+const TSV_ESCAPES: Record<string, string> = {
+  "\\": "\\\\",
+  "\t": "\\t",
+  "\n": "\\n",
+  "\r": "\\r",
+};
+
+const TSV: Dialect = {
+  delimiter: "\t",
+  escape: (cell) => cell.replace(/[\\\t\n\r]/g, (char) => TSV_ESCAPES[char]),
+};
+
+const KNOWN_COLUMNS = new Set<string>([...DEFAULT_COLUMNS, "input"]);
+
+/**
+ * Serializes bulk results to CSV (RFC 4180 quoting)
+ * @param results - Bulk results or lookupStream items
+ * @param options - Columns and header row
+ * @returns CSV text with one line per result
+ * @throws Error if a column is unknown
+ */
+export function toCSV(
+  results: BulkLookupResponse,
+  options: ExportOptions = {}
+): string {
+  return toDelimited(results, options, CSV);
+}
+
+/**
+ * Serializes bulk results to TSV. Tabs, line breaks and backslashes inside
+ * values are escaped as \t, \n, \r and \\.
+ * @param results - Bulk results or lookupStream items
+ * @param options - Columns and header row
+ * @returns TSV text with one line per result
+ * @throws Error if a column is unknown
+ */
+export function toTSV(
+  results: BulkLookupResponse,
+  options: ExportOptions = {}
+): string {
+  return toDelimited(results, options, TSV);
+}
+
+/**
+ * Serializes bulk results to NDJSON, one item per line
+ * @param results - Bulk results or lookupStream items
+ * @returns NDJSON text
+ */
+export function toNDJSON(results: BulkLookupResponse): string {
+  return results.map((item) => `${JSON.stringify(item)}\n`).join("");
+}
+
+/**
+ * Creates a stream that turns written result items into CSV text
+ * @param options - Columns and header row
+ * @returns Transform with an object-mode writable side
+ * @throws Error if a column is unknown
+ */
+export function createCSVStream(options: ExportOptions = {}): Transform {
+  return createDelimitedStream(options, CSV);
+}
+
+/**
+ * Creates a stream that turns written result items into TSV text
+ * @param options - Columns and header row
+ * @returns Transform with an object-mode writable side
+ * @throws Error if a column is unknown
+ */
+export function createTSVStream(options: ExportOptions = {}): Transform {
+  return createDelimitedStream(options, TSV);
+}
+
+/**
+ * Creates a stream that turns written result items into NDJSON text
+ * @returns Transform with an object-mode writable side
+ */
+export function createNDJSONStream(): Transform {
+  return new Transform({
+    writableObjectMode: true,
+    transform(item: ExportItem, _encoding, callback) {
+      callback(null, `${JSON.stringify(item)}\n`);
+    },
+  });
+}
+
+/**
+ * Joins cells into one CSV line, quoting cells that need it
+ * @param cells - Cell values; undefined and null become empty cells
+ * @returns CSV line including the trailing newline
+ */
+export function csvLine(cells: unknown[]): string {
+  return formatLine(cells, CSV);
+}
+
+function toDelimited(
+  results: BulkLookupResponse,
+  options: ExportOptions,
+  dialect: Dialect
+): string {
+  const { columns, header } = resolveExportOptions(options);
+  const lines = results.map((item) =>
+    formatLine(rowCells(item, columns), dialect)
+  );
+  if (header) lines.unshift(formatLine(columns, dialect));
+  return lines.join("");
+}
+
+function createDelimitedStream(
+  options: ExportOptions,
+  dialect: Dialect
+): Transform {
+  const { columns, header } = resolveExportOptions(options);
+  const stream = new Transform({
+    writableObjectMode: true,
+    transform(item: ExportItem, _encoding, callback) {
+      callback(null, formatLine(rowCells(item, columns), dialect));
+    },
+  });
+  if (header) stream.push(formatLine(columns, dialect));
+  return stream;
+}
+
+function resolveExportOptions(options: ExportOptions): Required<ExportOptions> {
+  const columns = options.columns ?? DEFAULT_COLUMNS;
+  const unknown = columns.find((column) => !KNOWN_COLUMNS.has(column));
+  if (unknown !== undefined) {
+    throw new Error(`Unknown export column: ${unknown}`);
+  }
+
+  if (columns.length === 0) {
+    throw new Error("At least one export column is required");
+  }
+
+  return { columns, header: options.header ?? true };
+}
+
+/**
+ * Reads the column values of one item; error items only have ip, status,
+ * error_message and input
+ */
+function rowCells(item: ExportItem, columns: ExportColumn[]): unknown[] {
+  const row: Record<string, unknown> =
+    item.status === "success"
+      ? { ...item.data, ip: item.ip, status: item.status }
+      : {
+          ip: item.ip,
+          status: item.status,
+          error_message: item.error_message,
+        };
+  if (item.input !== undefined) row.input = item.input;
+  return columns.map((column) => row[column]);
+}
+
+function formatLine(cells: unknown[], dialect: Dialect): string {
+  const text = cells.map((cell) =>
+    dialect.escape(cell === undefined || cell === null ? "" : String(cell))
+  );
+  return `${text.join(dialect.delimiter)}\n`;
+}
@@ -0,0 +1,259 @@
+import type {
+  IPGeolocationError,
+  IPGeolocationResponse,
+  IPGeolocationSuccess,
+} from "./index";
+
+export interface MapExportOptions {
+  /**
+   * IPGeolocationResponse fields copied into feature properties (default ip,
+   * city, region, country_code, country_name)
+   */
+  properties?: (keyof IPGeolocationResponse)[];
+  /**
+   * Round coordinates to this many decimal places, e.g. 1 for about 11 km
+   * (default: no rounding)
+   */
+  precision?: number;
+  /**
+   * Merge results with identical coordinates, after rounding, into one point
+   * with `count` and `ips` properties (default false)
+   */
+  cluster?: boolean;
+}
+
+export interface GeoJSONOptions extends MapExportOptions {
+  /**
+   * List error items and results without coordinates in `skipped` (default
+   * false)
+   */
+  reportSkipped?: boolean;
+}
+
+export interface KMLOptions extends MapExportOptions {
+  /**
+   * Document name (default "IP Geolocation")
+   */
+  name?: string;
+}
+
+export interface GeoJSONFeature {
+  type: "Feature";
+  geometry: {
+    type: "Point";
+    /**
+     * Longitude and latitude, in that order
+     */
+    coordinates: [number, number];
+  };
+  properties: Record<string, unknown>;
+}
+
+export interface SkippedResult {
+  ip: string;
+  reason: string;
+}
+
+export interface GeoJSONFeatureCollection {
+  type: "FeatureCollection";
+  features: GeoJSONFeature[];
+  /**
+   * Results that could not be mapped, when reportSkipped is set
+   */
+  skipped?: SkippedResult[];
+}
+
+/**
+ * Results accepted by the map exporters: bulk items, lookupStream items or
+ * plain lookup data
+ */
+export type MapExportInput = (
+  | IPGeolocationSuccess
+  | IPGeolocationError
+  | IPGeolocationResponse
+)[];
+
+interface MapPoint {
+  coordinates: [number, number];
+  data: IPGeolocationResponse;
+}
+
+const DEFAULT_PROPERTIES: (keyof IPGeolocationResponse)[] = [
+  "ip",
+  "city",
+  "region",
+  "country_code",
+  "country_name",
+];
+
+/**
+ * Converts lookup results into a GeoJSON FeatureCollection of Points. Error
+ * items and results without coordinates are skipped.
+ * @param results - Bulk items or lookup data
+ * @param options - Properties, rounding, clustering and skip reporting
+ * @returns FeatureCollection with one feature per mapped result or cluster
+ * @throws Error if the precision is invalid
+ */
+export function toGeoJSON(
+  results: MapExportInput,
+  options: GeoJSONOptions = {}
+): GeoJSONFeatureCollection {
+  const { features, skipped } = collectFeatures(results, options);
+  const collection: GeoJSONFeatureCollection = {
+    type: "FeatureCollection",
+    features,
+  };
+  if (options.reportSkipped) collection.skipped = skipped;
+  return collection;
+}
+
+/**
+ * Converts lookup results into a KML document with one Placemark per mapped
+ * result or cluster. Error items and results without coordinates are skipped.
+ * @param results - Bulk items or lookup data
+ * @param options - Document name, properties, rounding and clustering
+ * @returns KML 2.2 document
+ * @throws Error if the precision is invalid
+ */
+export function toKML(
+  results: MapExportInput,
+  options: KMLOptions = {}
+): string {
+  const { features } = collectFeatures(results, options);
+  const placemarks = features.map((feature) => {
+    const { properties } = feature;
+    const [longitude, latitude] = feature.geometry.coordinates;
+    const name =
+      typeof properties.count === "number"
+        ? `${properties.count} IPs`
+        : String(properties.ip ?? "");
+    const data = Object.keys(properties)
+      .map((key) => {
+        const value = properties[key];
+        const text = escapeXML(
+          Array.isArray(value) ? value.join(", ") : String(value)
+        );
+        return `<Data name="${escapeXML(key)}"><value>${text}</value></Data>`;
+      })
+      .join("");
+
+    return [
+      "    <Placemark>",
+      `      <name>${escapeXML(name)}</name>`,
+      `      <ExtendedData>${data}</ExtendedData>`,
+      `      <Point><coordinates>${longitude},${latitude}</coordinates></Point>`,
+      "    </Placemark>",
+    ].join("\n");
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    "  <Document>",
+    `    <name>${escapeXML(options.name ?? "IP Geolocation")}</name>`,
+    ...placemarks,
+    "  </Document>",
+    "</kml>",
+    "",
+  ].join("\n");
+}
+
+function collectFeatures(
+  results: MapExportInput,
+  options: MapExportOptions
+): { features: GeoJSONFeature[]; skipped: SkippedResult[] } {
+  const { precision } = options;
+  if (
+    precision !== undefined &&
+    (!Number.isInteger(precision) || precision < 0 || precision > 15)
+  ) {
+    throw new Error("Coordinate precision must be an integer between 0 and 15");
+  }
+
+  const properties = options.properties ?? DEFAULT_PROPERTIES;
+  const round = (value: number) =>
+    precision === undefined ? value : Number(value.toFixed(precision));
+
+  const skipped: SkippedResult[] = [];
+  const points: MapPoint[] = [];
+  results.forEach((item) => {
+    if ("status" in item && item.status === "error") {
+      skipped.push({ ip: item.ip, reason: item.error_message });
+      return;
+    }
+
+    const data = "status" in item ? item.data : item;
+    const { latitude, longitude } = data;
+    if (typeof latitude !== "number" || typeof longitude !== "number") {
+      skipped.push({ ip: data.ip, reason: "Missing coordinates" });
+      return;
+    }
+
+    points.push({ coordinates: [round(longitude), round(latitude)], data });
+  });
+
+  const pick = (data: IPGeolocationResponse) => {
+    const picked: Record<string, unknown> = {};
+    properties.forEach((key) => {
+      if (data[key] !== undefined) picked[key] = data[key];
+    });
+    return picked;
+  };
+
+  if (!options.cluster) {
+    return {
+      features: points.map(({ coordinates, data }) =>
+        toFeature(coordinates, pick(data))
+      ),
+      skipped,
+    };
+  }
+
+  const clusters = new Map<string, MapPoint[]>();
+  points.forEach((point) => {
+    const key = point.coordinates.join(",");
+    const cluster = clusters.get(key);
+    if (cluster) cluster.push(point);
+    else clusters.set(key, [point]);
+  });
+
+  const features = Array.from(clusters.values()).map((cluster) => {
+    // Keep only the properties every member agrees on
+    const shared = pick(cluster[0].data);
+    cluster.slice(1).forEach(({ data }) => {
+      Object.keys(shared).forEach((key) => {
+        if (data[key as keyof IPGeolocationResponse] !== shared[key]) {
+          delete shared[key];
+        }
+      });
+    });
+
+    return toFeature(cluster[0].coordinates, {
+      ...shared,
+      count: cluster.length,
+      ips: cluster.map(({ data }) => data.ip),
+    });
+  });
+
+  return { features, skipped };
+}
+
+function toFeature(
+  coordinates: [number, number],
+  properties: Record<string, unknown>
+): GeoJSONFeature {
+  return {
+    type: "Feature",
+    geometry: { type: "Point", coordinates },
+    properties,
+  };
+}
+
+function escapeXML(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
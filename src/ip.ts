@@ -0,0 +1,341 @@
+import type { Result } from "./index";
+
+/**
+ * Parsed IP address
+ */
+export interface ParsedIP {
+  /**
+   * Address family
+   */
+  family: 4 | 6;
+  /**
+   * Address in network order: 4 bytes for IPv4, 16 bytes for IPv6
+   */
+  bytes: Uint8Array;
+  /**
+   * IPv6 zone ID, e.g. "eth0" in fe80::1%eth0
+   */
+  zone?: string;
+}
+
+/**
+ * Address extracted from log-style input by normalizeIP
+ */
+export interface NormalizedIP extends ParsedIP {
+  /**
+   * Port that followed the address, e.g. 443 in [2001:db8::1]:443
+   */
+  port?: number;
+}
+
+/**
+ * Parsed CIDR block
+ */
+export interface ParsedCIDR {
+  /**
+   * Network address with all host bits cleared
+   */
+  address: ParsedIP;
+  /**
+   * Prefix length in bits
+   */
+  prefix: number;
+}
+
+/**
+ * Parses an IPv4 address in dotted-decimal notation or an IPv6 address in any
+ * RFC 4291 text form, including embedded IPv4 and an optional zone ID.
+ * Surrounding whitespace is not accepted.
+ * @param ip - IP address to parse
+ * @returns Result containing the parsed address or an INVALID_IP_ADDRESS error
+ */
+export function parseIP(ip: string): Result<ParsedIP> {
+  const parsed = typeof ip === "string" ? parseAddress(ip) : undefined;
+  if (!parsed) {
+    return {
+      ok: false,
+      error: {
+        type: "INVALID_IP_ADDRESS",
+        message: `Invalid IP address format: ${ip}`,
+      },
+    };
+  }
+
+  return {
+    ok: true,
+    data: parsed,
+  };
+}
+
+/**
+ * Parses an IP address as it commonly appears in logs and headers. Accepts
+ * everything parseIP does plus IPv4 with a port (1.2.3.4:51234) and bracketed
+ * IPv6 with or without a port ([2001:db8::1]:443). IPv4-mapped (::ffff:a.b.c.d)
+ * and IPv4-compatible (::a.b.c.d) addresses are unwrapped to IPv4.
+ * @param input - Address text to normalize
+ * @returns Result containing the normalized address or an INVALID_IP_ADDRESS error
+ */
+export function normalizeIP(input: string): Result<NormalizedIP> {
+  const invalid: Result<NormalizedIP> = {
+    ok: false,
+    error: {
+      type: "INVALID_IP_ADDRESS",
+      message: `Invalid IP address format: ${input}`,
+    },
+  };
+  if (typeof input !== "string") return invalid;
+
+  let address = input;
+  let portText: string | undefined;
+  const bracketed = /^\[([^\]]*)\](?::(\d+))?$/.exec(input);
+  const ipv4WithPort = /^([\d.]+):(\d+)$/.exec(input);
+  if (bracketed) {
+    [, address, portText] = bracketed;
+    if (!address.includes(":")) return invalid;
+  } else if (ipv4WithPort) {
+    [, address, portText] = ipv4WithPort;
+  }
+
+  if (
+    portText !== undefined &&
+    (portText.length > 5 || Number(portText) > 65535)
+  ) {
+    return invalid;
+  }
+
+  const parsed = parseAddress(address);
+  if (!parsed) return invalid;
+
+  // IPv4-compatible addresses exclude :: and ::1, whose first IPv4 octet is zero
+  const { bytes } = parsed;
+  const embedsIPv4 =
+    parsed.family === 6 &&
+    parsed.zone === undefined &&
+    bytes.subarray(0, 10).every((byte) => byte === 0) &&
+    ((bytes[10] === 0xff && bytes[11] === 0xff) ||
+      (bytes[10] === 0 && bytes[11] === 0 && bytes[12] !== 0));
+  const normalized: NormalizedIP = embedsIPv4
+    ? { family: 4, bytes: bytes.slice(12) }
+    : parsed;
+  if (portText !== undefined) normalized.port = Number(portText);
+
+  return {
+    ok: true,
+    data: normalized,
+  };
+}
+
+/**
+ * Parses a CIDR block such as 192.0.2.0/24 or 2001:db8::/32. Host bits set in
+ * the address are cleared, so 192.0.2.77/24 parses as 192.0.2.0/24.
+ * @param cidr - Address and prefix length separated by "/"
+ * @returns Result containing the parsed block or an INVALID_INPUT error
+ */
+export function parseCIDR(cidr: string): Result<ParsedCIDR> {
+  const [addressText, prefixText, ...rest] =
+    typeof cidr === "string" ? cidr.trim().split("/") : [];
+  const parsed = addressText ? parseAddress(addressText) : undefined;
+  const maxPrefix = parsed?.family === 4 ? 32 : 128;
+
+  if (
+    !parsed ||
+    parsed.zone !== undefined ||
+    rest.length > 0 ||
+    !/^\d{1,3}$/.test(prefixText ?? "") ||
+    Number(prefixText) > maxPrefix
+  ) {
+    return {
+      ok: false,
+      error: {
+        type: "INVALID_INPUT",
+        message: `Invalid CIDR notation: ${cidr}`,
+      },
+    };
+  }
+
+  const prefix = Number(prefixText);
+  const bytes = parsed.bytes;
+  for (let bit = prefix; bit < bytes.length * 8; bit++) {
+    bytes[bit >> 3] &= ~(0x80 >> (bit & 7));
+  }
+
+  return {
+    ok: true,
+    data: { address: parsed, prefix },
+  };
+}
+
+/**
+ * Formats a parsed address in canonical form: dotted decimal for IPv4 and the
+ * RFC 5952 recommended text for IPv6 (lowercase, no leading zeros, the longest
+ * run of two or more zero groups shortened to "::"). IPv4-mapped addresses keep
+ * the dotted IPv4 suffix, e.g. ::ffff:192.0.2.1.
+ * @param address - Parsed IP address
+ * @returns Canonical text form of the address
+ */
+export function formatIP(address: ParsedIP): string {
+  const { bytes } = address;
+  if (address.family === 4) return Array.from(bytes).join(".");
+
+  const groups: number[] = [];
+  for (let index = 0; index < 16; index += 2) {
+    groups.push((bytes[index] << 8) | bytes[index + 1]);
+  }
+
+  const isMapped =
+    groups.slice(0, 5).every((group) => group === 0) && groups[5] === 0xffff;
+  const hexGroups = isMapped ? groups.slice(0, 6) : groups;
+
+  // Find the first longest run of zero groups
+  let bestStart = -1;
+  let bestLength = 0;
+  for (let index = 0; index < hexGroups.length; index++) {
+    if (hexGroups[index] !== 0) continue;
+    let end = index;
+    while (end < hexGroups.length && hexGroups[end] === 0) end++;
+    if (end - index > bestLength) {
+      bestStart = index;
+      bestLength = end - index;
+    }
+    index = end;
+  }
+
+  const parts = hexGroups.map((group) => group.toString(16));
+  if (isMapped) parts.push(Array.from(bytes.subarray(12)).join("."));
+
+  let text: string;
+  if (bestLength >= 2) {
+    const head = parts.slice(0, bestStart).join(":");
+    const tail = parts.slice(bestStart + bestLength).join(":");
+    text = `${head}::${tail}`;
+  } else {
+    text = parts.join(":");
+  }
+
+  return address.zone === undefined ? text : `${text}%${address.zone}`;
+}
+
+/**
+ * Converts an IP address to 16 bytes in network order. IPv4 addresses are
+ * mapped into ::ffff:0:0/96 so both families sort in one address space.
+ * @param ip - IPv4 or IPv6 address, optionally with an IPv6 zone ID
+ * @returns 16-byte address, or undefined if the input is not a valid IP
+ */
+export function ipToBytes(ip: string): Uint8Array | undefined {
+  const parsed = parseAddress(ip);
+  if (!parsed) return undefined;
+  if (parsed.family === 6) return parsed.bytes;
+
+  const bytes = new Uint8Array(16);
+  bytes[10] = 0xff;
+  bytes[11] = 0xff;
+  bytes.set(parsed.bytes, 12);
+  return bytes;
+}
+
+/**
+ * Compares two byte arrays of equal length as unsigned big-endian numbers
+ * @returns Negative, zero or positive like Array.prototype.sort comparators
+ */
+export function compareBytes(a: Uint8Array, b: Uint8Array): number {
+  for (let index = 0; index < a.length; index++) {
+    if (a[index] !== b[index]) return a[index] - b[index];
+  }
+  return 0;
+}
+
+/**
+ * Checks whether an address lies within a network
+ * @param address - Address bytes
+ * @param network - Network bytes of the same length
+ * @param prefix - Prefix length in bits
+ * @returns true if the first prefix bits match
+ */
+export function matchesPrefix(
+  address: Uint8Array,
+  network: Uint8Array,
+  prefix: number
+): boolean {
+  const fullBytes = prefix >> 3;
+  for (let index = 0; index < fullBytes; index++) {
+    if (address[index] !== network[index]) return false;
+  }
+
+  const remainingBits = prefix & 7;
+  if (remainingBits === 0) return true;
+
+  const mask = (0xff << (8 - remainingBits)) & 0xff;
+  return (address[fullBytes] & mask) === (network[fullBytes] & mask);
+}
+
+function parseAddress(ip: string): ParsedIP | undefined {
+  if (!ip.includes(":")) {
+    const bytes = parseIPv4(ip);
+    return bytes && { family: 4, bytes };
+  }
+
+  const zoneIndex = ip.indexOf("%");
+  const bytes = parseIPv6(zoneIndex === -1 ? ip : ip.slice(0, zoneIndex));
+  if (!bytes) return undefined;
+  if (zoneIndex === -1) return { family: 6, bytes };
+
+  const zone = ip.slice(zoneIndex + 1);
+  if (!/^[\w.~-]+$/.test(zone)) return undefined;
+  return { family: 6, bytes, zone };
+}
+
+function parseIPv4(ip: string): Uint8Array | undefined {
+  const parts = ip.split(".");
+  if (parts.length !== 4) return undefined;
+
+  const bytes = new Uint8Array(4);
+  for (let index = 0; index < 4; index++) {
+    const part = parts[index];
+    if (!/^\d{1,3}$/.test(part)) return undefined;
+    const value = Number(part);
+    if (value > 255) return undefined;
+    bytes[index] = value;
+  }
+  return bytes;
+}
+
+function parseIPv6(address: string): Uint8Array | undefined {
+  const halves = address.split("::");
+  if (halves.length > 2) return undefined;
+
+  // An embedded IPv4 address may only appear at the very end
+  const parseGroups = (text: string, isLast: boolean): number[] | undefined => {
+    if (text === "") return [];
+    const groups: number[] = [];
+    const parts = text.split(":");
+
+    for (let index = 0; index < parts.length; index++) {
+      const part = parts[index];
+      if (isLast && index === parts.length - 1 && part.includes(".")) {
+        const ipv4 = parseIPv4(part);
+        if (!ipv4) return undefined;
+        groups.push((ipv4[0] << 8) | ipv4[1], (ipv4[2] << 8) | ipv4[3]);
+      } else if (/^[0-9a-fA-F]{1,4}$/.test(part)) {
+        groups.push(parseInt(part, 16));
+      } else {
+        return undefined;
+      }
+    }
+    return groups;
+  };
+
+  const head = parseGroups(halves[0], halves.length === 1);
+  const tail = halves.length === 2 ? parseGroups(halves[1], true) : [];
+  if (!head || !tail) return undefined;
+
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return undefined;
+
+  const groups = [...head, ...new Array(missing).fill(0), ...tail];
+  const bytes = new Uint8Array(16);
+  groups.forEach((group, index) => {
+    bytes[index * 2] = group >> 8;
+    bytes[index * 2 + 1] = group & 0xff;
+  });
+  return bytes;
+}
@@ -0,0 +1,138 @@
+import type { IncomingMessage, ServerResponse } from "http";
+import type {
+  IPFlare,
+  IPGeolocationResponse,
+  LookupOptions,
+  Result,
+} from "./index";
+import { formatIP, normalizeIP } from "./ip";
+
+export interface GeolocationMiddlewareOptions
+  extends Omit<LookupOptions, "signal" | "deadline"> {
+  /**
+   * Pass lookup failures to `next` as an error with status 503 instead of
+   * continuing with the error Result in `req.geo` (default false)
+   */
+  failClosed?: boolean;
+  /**
+   * Time in milliseconds the lookup may take, including retries, before it
+   * fails with TIMEOUT (default: no limit beyond the request timeout)
+   */
+  budget?: number;
+  /**
+   * Paths that are not geolocated. A string matches the path itself and
+   * everything below it; a RegExp is tested against the path.
+   */
+  skipPaths?: (string | RegExp)[];
+  /**
+   * Resolves the client IP (default: Express `req.ip`, then the socket's
+   * remote address)
+   */
+  getIP?: (req: IncomingMessage) => string | undefined;
+}
+
+/**
+ * Request with the geolocation Result attached by the middleware
+ */
+export interface GeolocatedRequest extends IncomingMessage {
+  geo?: Result<IPGeolocationResponse>;
+}
+
+/**
+ * Error passed to `next` when failClosed is set
+ */
+export interface GeolocationMiddlewareError extends Error {
+  status: number;
+  result: Result<IPGeolocationResponse>;
+}
+
+export type GeolocationMiddleware = (
+  req: IncomingMessage,
+  res: ServerResponse,
+  next: (error?: unknown) => void
+) => void;
+
+/**
+ * Creates Express/Connect middleware that looks up the client IP and sets
+ * `req.geo` to the lookup Result
+ * @param geolocator - Client used for lookups
+ * @param options - Failure mode, lookup budget, skipped paths and fields
+ * @returns Middleware function
+ * @throws Error if the budget is invalid
+ */
+export function createGeolocationMiddleware(
+  geolocator: IPFlare,
+  options: GeolocationMiddlewareOptions = {}
+): GeolocationMiddleware {
+  const {
+    failClosed = false,
+    budget,
+    skipPaths = [],
+    getIP = defaultGetIP,
+    include,
+    timeout,
+  } = options;
+
+  if (budget !== undefined && !(budget > 0)) {
+    throw new Error("Middleware budget must be a positive number");
+  }
+
+  return (req, _res, next) => {
+    if (isSkipped((req.url ?? "/").split("?")[0], skipPaths)) return next();
+
+    resolveGeo(geolocator, getIP(req), { include, timeout }, budget).then(
+      (result) => {
+        (req as GeolocatedRequest).geo = result;
+        if (result.ok || !failClosed) return next();
+
+        const error: GeolocationMiddlewareError = Object.assign(
+          new Error(result.error.message),
+          { status: 503, result }
+        );
+        next(error);
+      },
+      next
+    );
+  };
+}
+
+function isSkipped(path: string, skipPaths: (string | RegExp)[]): boolean {
+  return skipPaths.some((pattern) => {
+    if (typeof pattern !== "string") return pattern.test(path);
+    return (
+      path === pattern || path.startsWith(`${pattern.replace(/\/$/, "")}/`)
+    );
+  });
+}
+
+function defaultGetIP(req: IncomingMessage): string | undefined {
+  const { ip } = req as IncomingMessage & { ip?: unknown };
+  return typeof ip === "string" ? ip : req.socket?.remoteAddress;
+}
+
+/**
+ * Looks up a client IP within the budget. Socket addresses such as
+ * ::ffff:192.0.2.1 are unwrapped to IPv4 first.
+ */
+async function resolveGeo(
+  geolocator: IPFlare,
+  ip: string | undefined,
+  options: Pick<LookupOptions, "include" | "timeout">,
+  budget: number | undefined
+): Promise<Result<IPGeolocationResponse>> {
+  if (!ip) {
+    return {
+      ok: false,
+      error: {
+        type: "INVALID_INPUT",
+        message: "Client IP address is unavailable",
+      },
+    };
+  }
+
+  const normalized = normalizeIP(ip.trim());
+  return geolocator.lookup(normalized.ok ? formatIP(normalized.data) : ip, {
+    ...options,
+    deadline: budget === undefined ? undefined : Date.now() + budget,
+  });
+}
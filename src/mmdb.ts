@@ -0,0 +1,454 @@
+import { promises as fs } from "fs";
+import type {
+  IPGeolocationResponse,
+  LookupBackend,
+  LookupOptions,
+  Result,
+} from "./index";
+import { ipToBytes } from "./ip";
+
+// Marks the start of the metadata section, searched for from the end of the file
+const METADATA_MARKER = [
+  0xab, 0xcd, 0xef, 0x4d, 0x61, 0x78, 0x4d, 0x69, 0x6e, 0x64, 0x2e, 0x63, 0x6f,
+  0x6d,
+];
+const METADATA_MAX_SIZE = 128 * 1024;
+
+// Size of the zero-filled separator between the search tree and the data section
+const DATA_SECTION_SEPARATOR = 16;
+
+export interface MMDBMetadata {
+  node_count: number;
+  record_size: number;
+  ip_version: number;
+  database_type: string;
+  languages?: string[];
+  build_epoch?: number;
+  description?: Record<string, string>;
+  [key: string]: unknown;
+}
+
+/**
+ * Reader for MaxMind DB (.mmdb) files such as GeoLite2 and GeoIP2, written in
+ * plain TypeScript so no native addon is needed.
+ */
+export class MMDBReader {
+  readonly metadata: MMDBMetadata;
+  private readonly buffer: Uint8Array;
+  private readonly nodeCount: number;
+  private readonly recordSize: number;
+  private readonly dataSectionStart: number;
+  private readonly ipv4Start: number;
+
+  constructor(buffer: Uint8Array) {
+    this.buffer = buffer;
+
+    const metadataStart = findMetadataStart(buffer);
+    if (metadataStart === -1) {
+      throw new Error("Invalid MMDB file: metadata section not found");
+    }
+
+    const [metadata] = new Decoder(buffer, metadataStart).decode(metadataStart);
+    this.metadata = metadata as MMDBMetadata;
+    this.nodeCount = this.metadata.node_count;
+    this.recordSize = this.metadata.record_size;
+
+    if (![24, 28, 32].includes(this.recordSize)) {
+      throw new Error(`Unsupported MMDB record size: ${this.recordSize}`);
+    }
+
+    const treeSize = (this.recordSize / 4) * this.nodeCount;
+    this.dataSectionStart = treeSize + DATA_SECTION_SEPARATOR;
+
+    // IPv4 addresses live under ::/96 in IPv6 databases
+    let node = 0;
+    if (this.metadata.ip_version === 6) {
+      for (let bit = 0; bit < 96 && node < this.nodeCount; bit++) {
+        node = this.readRecord(node, 0);
+      }
+    }
+    this.ipv4Start = node;
+  }
+
+  /**
+   * Loads a database from a file
+   * @param path - Path to the .mmdb file
+   * @returns Promise with the reader
+   */
+  static async fromFile(path: string): Promise<MMDBReader> {
+    return new MMDBReader(await fs.readFile(path));
+  }
+
+  /**
+   * Returns the record for an IP address
+   * @param ip - IPv4 or IPv6 address
+   * @returns Decoded record, or undefined if the address is not in the database
+   */
+  get(ip: string): unknown {
+    const bytes = ipToBytes(ip);
+    if (!bytes) return undefined;
+
+    const isIPv4 =
+      bytes.subarray(0, 10).every((byte) => byte === 0) &&
+      bytes[10] === 0xff &&
+      bytes[11] === 0xff;
+
+    let address: Uint8Array;
+    let node: number;
+    if (isIPv4) {
+      address = bytes.subarray(12);
+      node = this.ipv4Start;
+    } else if (this.metadata.ip_version === 6) {
+      address = bytes;
+      node = 0;
+    } else {
+      return undefined;
+    }
+
+    const bitCount = address.length * 8;
+    for (let bit = 0; bit < bitCount && node < this.nodeCount; bit++) {
+      const direction = (address[bit >> 3] >> (7 - (bit & 7))) & 1;
+      node = this.readRecord(node, direction);
+    }
+
+    if (node <= this.nodeCount) return undefined;
+
+    const offset =
+      this.dataSectionStart + node - this.nodeCount - DATA_SECTION_SEPARATOR;
+    return new Decoder(this.buffer, this.dataSectionStart).decode(offset)[0];
+  }
+
+  /**
+   * Reads the left (0) or right (1) record of a search tree node
+   */
+  private readRecord(node: number, direction: number): number {
+    const buffer = this.buffer;
+
+    if (this.recordSize === 24) {
+      const offset = node * 6 + direction * 3;
+      return readUInt(buffer, offset, 3);
+    }
+
+    if (this.recordSize === 28) {
+      const offset = node * 7;
+      if (direction === 0) {
+        return (
+          ((buffer[offset + 3] & 0xf0) << 20) | readUInt(buffer, offset, 3)
+        );
+      }
+      return (
+        ((buffer[offset + 3] & 0x0f) << 24) | readUInt(buffer, offset + 4, 3)
+      );
+    }
+
+    return readUInt(buffer, node * 8 + direction * 4, 4);
+  }
+}
+
+/**
+ * Lookup backend that answers from one or more MaxMind databases, e.g. a
+ * GeoLite2-City database together with a GeoLite2-ASN database. Records are
+ * mapped into IPGeolocationResponse; fields found in an earlier database take
+ * precedence over later ones.
+ */
+export class MMDBBackend implements LookupBackend {
+  private readonly readers: MMDBReader[];
+
+  constructor(readers: MMDBReader | MMDBReader[]) {
+    this.readers = Array.isArray(readers) ? readers : [readers];
+
+    if (this.readers.length === 0) {
+      throw new Error("At least one MMDB reader is required");
+    }
+  }
+
+  /**
+   * Loads a backend from one or more .mmdb files
+   * @param paths - Paths to the database files
+   * @returns Promise with the loaded backend
+   */
+  static async fromFiles(...paths: string[]): Promise<MMDBBackend> {
+    return new MMDBBackend(
+      await Promise.all(paths.map((path) => MMDBReader.fromFile(path)))
+    );
+  }
+
+  /**
+   * Looks an IP address up in every database and merges the mapped records
+   * @param ip - Validated, trimmed IP address
+   * @param options - Additional options for the lookup
+   * @returns Promise with Result containing geolocation data or error
+   */
+  async lookup(
+    ip: string,
+    options: LookupOptions = {}
+  ): Promise<Result<IPGeolocationResponse>> {
+    if (!ipToBytes(ip)) {
+      return {
+        ok: false,
+        error: {
+          type: "INVALID_IP_ADDRESS",
+          message: `Invalid IP address format: ${ip}`,
+        },
+      };
+    }
+
+    let data: IPGeolocationResponse | undefined;
+    try {
+      for (let index = this.readers.length - 1; index >= 0; index--) {
+        const record = this.readers[index].get(ip);
+        if (record && typeof record === "object") {
+          data = {
+            ...(data ?? { ip, in_eu: false, land_locked: false }),
+            ...mapRecord(record as MMDBRecord),
+          };
+        }
+      }
+    } catch (error) {
+      // Corrupt or truncated databases fail while decoding a record
+      return {
+        ok: false,
+        error: {
+          type: "UNKNOWN_ERROR",
+          message: `Failed to read MMDB database: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+          details: error,
+        },
+      };
+    }
+
+    if (!data) {
+      return {
+        ok: false,
+        error: {
+          type: "GEOLOCATION_NOT_FOUND",
+          message: `Geolocation not found for ${ip}`,
+        },
+      };
+    }
+
+    if (!options.include?.asn) delete data.asn;
+    if (!options.include?.isp) delete data.isp;
+
+    return {
+      ok: true,
+      data,
+    };
+  }
+}
+
+interface MMDBNamedRecord {
+  iso_code?: string;
+  code?: string;
+  names?: Record<string, string>;
+  is_in_european_union?: boolean;
+}
+
+interface MMDBRecord {
+  city?: MMDBNamedRecord;
+  continent?: MMDBNamedRecord;
+  country?: MMDBNamedRecord;
+  registered_country?: MMDBNamedRecord;
+  subdivisions?: MMDBNamedRecord[];
+  postal?: { code?: string };
+  location?: { latitude?: number; longitude?: number; time_zone?: string };
+  traits?: {
+    autonomous_system_number?: number;
+    autonomous_system_organization?: string;
+    isp?: string;
+  };
+  autonomous_system_number?: number;
+  autonomous_system_organization?: string;
+  isp?: string;
+}
+
+/**
+ * Maps a GeoIP2/GeoLite2 record to IPGeolocationResponse fields, omitting
+ * fields the record does not have
+ */
+function mapRecord(record: MMDBRecord): Partial<IPGeolocationResponse> {
+  const country = record.country ?? record.registered_country;
+  const subdivision = record.subdivisions?.[0];
+  const asNumber =
+    record.autonomous_system_number ?? record.traits?.autonomous_system_number;
+  const asOrganization =
+    record.isp ??
+    record.traits?.isp ??
+    record.autonomous_system_organization ??
+    record.traits?.autonomous_system_organization;
+
+  const fields: Partial<IPGeolocationResponse> = {
+    city: record.city?.names?.en,
+    region: subdivision?.names?.en,
+    region_code: subdivision?.iso_code,
+    country_code: country?.iso_code,
+    country_name: country?.names?.en,
+    continent_code: record.continent?.code,
+    in_eu: country?.is_in_european_union,
+    postal: record.postal?.code,
+    latitude: record.location?.latitude,
+    longitude: record.location?.longitude,
+    timezone: record.location?.time_zone,
+    asn: asNumber !== undefined ? `AS${asNumber}` : undefined,
+    isp: asOrganization,
+  };
+
+  for (const key of Object.keys(fields) as (keyof typeof fields)[]) {
+    if (fields[key] === undefined) delete fields[key];
+  }
+  return fields;
+}
+
+function findMetadataStart(buffer: Uint8Array): number {
+  const stop = Math.max(0, buffer.length - METADATA_MAX_SIZE);
+
+  for (
+    let index = buffer.length - METADATA_MARKER.length;
+    index >= stop;
+    index--
+  ) {
+    if (
+      METADATA_MARKER.every((byte, offset) => buffer[index + offset] === byte)
+    ) {
+      return index + METADATA_MARKER.length;
+    }
+  }
+  return -1;
+}
+
+function readUInt(buffer: Uint8Array, offset: number, length: number): number {
+  let value = 0;
+  for (let index = 0; index < length; index++) {
+    value = value * 256 + buffer[offset + index];
+  }
+  return value;
+}
+
+/**
+ * Decoder for the MaxMind DB data section format
+ */
+class Decoder {
+  constructor(
+    private readonly buffer: Uint8Array,
+    private readonly pointerBase: number
+  ) {}
+
+  /**
+   * Decodes the value at an offset
+   * @returns The value and the offset just past it
+   */
+  decode(offset: number): [unknown, number] {
+    const control = this.buffer[offset++];
+    let type = control >> 5;
+
+    if (type === 1) {
+      const [pointer, next] = this.decodePointer(control, offset);
+      return [this.decode(pointer)[0], next];
+    }
+
+    if (type === 0) {
+      type = 7 + this.buffer[offset++];
+    }
+
+    let size = control & 0x1f;
+    if (size === 29) {
+      size = 29 + this.buffer[offset++];
+    } else if (size === 30) {
+      size = 285 + readUInt(this.buffer, offset, 2);
+      offset += 2;
+    } else if (size === 31) {
+      size = 65821 + readUInt(this.buffer, offset, 3);
+      offset += 3;
+    }
+
+    switch (type) {
+      case 2:
+        return [
+          Buffer.from(
+            this.buffer.buffer,
+            this.buffer.byteOffset + offset,
+            size
+          ).toString("utf8"),
+          offset + size,
+        ];
+      case 3:
+        return [this.view(offset, 8).getFloat64(0), offset + 8];
+      case 4:
+        return [
+          Uint8Array.from(this.buffer.subarray(offset, offset + size)),
+          offset + size,
+        ];
+      case 5:
+      case 6:
+      case 9:
+      case 10:
+        return [readUInt(this.buffer, offset, size), offset + size];
+      case 7:
+        return this.decodeMap(size, offset);
+      case 8:
+        return [
+          size === 4
+            ? this.view(offset, 4).getInt32(0)
+            : readUInt(this.buffer, offset, size),
+          offset + size,
+        ];
+      case 11:
+        return this.decodeArray(size, offset);
+      case 14:
+        return [size !== 0, offset];
+      case 15:
+        return [this.view(offset, 4).getFloat32(0), offset + 4];
+      default:
+        throw new Error(`Invalid MMDB data type ${type} at offset ${offset}`);
+    }
+  }
+
+  private decodePointer(control: number, offset: number): [number, number] {
+    const pointerSize = ((control >> 3) & 0x3) + 1;
+    const high = control & 0x7;
+    const bytes = readUInt(this.buffer, offset, pointerSize);
+    let pointer: number;
+
+    if (pointerSize === 1) {
+      pointer = high * 256 + bytes;
+    } else if (pointerSize === 2) {
+      pointer = high * 65536 + bytes + 2048;
+    } else if (pointerSize === 3) {
+      pointer = high * 16777216 + bytes + 526336;
+    } else {
+      pointer = bytes;
+    }
+
+    return [this.pointerBase + pointer, offset + pointerSize];
+  }
+
+  private decodeMap(size: number, offset: number): [unknown, number] {
+    const map: Record<string, unknown> = {};
+    for (let index = 0; index < size; index++) {
+      const [key, valueOffset] = this.decode(offset);
+      const [value, next] = this.decode(valueOffset);
+      map[key as string] = value;
+      offset = next;
+    }
+    return [map, offset];
+  }
+
+  private decodeArray(size: number, offset: number): [unknown, number] {
+    const array: unknown[] = [];
+    for (let index = 0; index < size; index++) {
+      const [value, next] = this.decode(offset);
+      array.push(value);
+      offset = next;
+    }
+    return [array, offset];
+  }
+
+  private view(offset: number, length: number): DataView {
+    return new DataView(
+      this.buffer.buffer,
+      this.buffer.byteOffset + offset,
+      length
+    );
+  }
+}
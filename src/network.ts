@@ -0,0 +1,124 @@
+import type { BulkLookupResponse, NetworkSummary } from "./index";
+import { type ParsedCIDR, formatIP } from "./ip";
+
+/**
+ * Lists the addresses of a CIDR block to look up. Blocks with at most `sample`
+ * addresses are enumerated in full; larger blocks are sampled at evenly spaced
+ * offsets that include the first and last address.
+ * @param network - Parsed CIDR block
+ * @param sample - Maximum number of addresses to return
+ * @returns Addresses in canonical form, in ascending order
+ */
+export function networkAddresses(
+  network: ParsedCIDR,
+  sample: number
+): string[] {
+  const { address, prefix } = network;
+  const total = networkSize(network);
+  const addresses: string[] = [];
+
+  if (total <= sample) {
+    for (let offset = 0; offset < total; offset++) {
+      addresses.push(
+        formatIP({ ...address, bytes: addOffset(address.bytes, offset) })
+      );
+    }
+    return addresses;
+  }
+
+  const denominator = Math.max(sample - 1, 1);
+  for (let index = 0; index < sample; index++) {
+    addresses.push(
+      formatIP({
+        ...address,
+        bytes: fractionOffset(address.bytes, prefix, index, denominator),
+      })
+    );
+  }
+  return addresses;
+}
+
+/**
+ * Number of addresses in a CIDR block. Precision is lost above 2^53, which only
+ * matters for reporting very large IPv6 blocks.
+ */
+export function networkSize(network: ParsedCIDR): number {
+  return Math.pow(2, network.address.bytes.length * 8 - network.prefix);
+}
+
+/**
+ * Aggregates the results of a network lookup
+ * @param network - Canonical CIDR notation of the block
+ * @param totalAddresses - Number of addresses in the block
+ * @param results - Results for the looked up addresses
+ * @returns Summary of countries, ASNs and uniformity
+ */
+export function summarizeNetwork(
+  network: string,
+  totalAddresses: number,
+  results: BulkLookupResponse
+): NetworkSummary {
+  const countries: Record<string, number> = {};
+  const asns: Record<string, number> = {};
+  const locations = new Set<string>();
+  let resolved = 0;
+
+  results.forEach((item) => {
+    if (item.status !== "success") return;
+
+    const { country_code, region, city, asn } = item.data;
+    resolved++;
+    if (country_code) {
+      countries[country_code] = (countries[country_code] ?? 0) + 1;
+    }
+    if (asn) asns[asn] = (asns[asn] ?? 0) + 1;
+    locations.add(JSON.stringify([country_code, region, city, asn]));
+  });
+
+  return {
+    network,
+    totalAddresses,
+    sampled: results.length,
+    resolved,
+    countries,
+    asns,
+    uniform: locations.size === 1,
+  };
+}
+
+/**
+ * Adds a small integer offset to an address
+ */
+function addOffset(bytes: Uint8Array, offset: number): Uint8Array {
+  const result = bytes.slice();
+  let carry = offset;
+  for (let index = result.length - 1; index >= 0 && carry > 0; index--) {
+    const sum = result[index] + (carry % 256);
+    result[index] = sum & 0xff;
+    carry = Math.floor(carry / 256) + (sum >> 8);
+  }
+  return result;
+}
+
+/**
+ * Sets the host bits of an address to floor(numerator / denominator * 2^bits),
+ * computed bit by bit so it stays exact for any prefix length. A numerator equal
+ * to the denominator sets every host bit.
+ */
+function fractionOffset(
+  bytes: Uint8Array,
+  prefix: number,
+  numerator: number,
+  denominator: number
+): Uint8Array {
+  const result = bytes.slice();
+  let remainder = numerator;
+  for (let bit = prefix; bit < result.length * 8; bit++) {
+    remainder *= 2;
+    if (remainder >= denominator) {
+      remainder -= denominator;
+      result[bit >> 3] |= 0x80 >> (bit & 7);
+    }
+  }
+  return result;
+}
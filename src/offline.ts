@@ -0,0 +1,224 @@
+import { promises as fs } from "fs";
+import type {
+  IPGeolocationResponse,
+  LookupBackend,
+  LookupOptions,
+  Result,
+} from "./index";
+import { parseCSV } from "./csv";
+import { compareBytes, ipToBytes } from "./ip";
+
+type RangeRecord = Omit<IPGeolocationResponse, "ip">;
+
+const STRING_FIELDS = [
+  "version",
+  "city",
+  "region",
+  "region_code",
+  "country_code",
+  "country_code_iso3",
+  "country_fifa_code",
+  "country_fips_code",
+  "country_name",
+  "country_capital",
+  "country_tld",
+  "country_emoji",
+  "continent_code",
+  "postal",
+  "timezone",
+  "utc_offset",
+  "country_calling_code",
+  "currency",
+  "currency_name",
+  "languages",
+  "asn",
+  "isp",
+];
+const NUMBER_FIELDS = ["latitude", "longitude", "country_area"];
+const BOOLEAN_FIELDS = ["in_eu", "land_locked"];
+
+/**
+ * Lookup backend that answers from a local IP range database instead of the API.
+ * Ranges are held in one sorted byte array and searched with binary search;
+ * identical records are stored once.
+ *
+ * The CSV needs a header row with `start_ip` and `end_ip` columns. Any other
+ * columns named after IPGeolocationResponse fields are returned for matching
+ * IPs; unknown columns are ignored. Ranges are inclusive and must not overlap.
+ */
+export class OfflineBackend implements LookupBackend {
+  private constructor(
+    private readonly starts: Uint8Array,
+    private readonly ends: Uint8Array,
+    private readonly recordIndexes: Uint32Array,
+    private readonly records: RangeRecord[]
+  ) {}
+
+  /**
+   * Loads a range database from a CSV file
+   * @param path - Path to the CSV file
+   * @returns Promise with the loaded backend
+   */
+  static async fromFile(path: string): Promise<OfflineBackend> {
+    return OfflineBackend.fromCSV(await fs.readFile(path, "utf8"));
+  }
+
+  /**
+   * Loads a range database from CSV text
+   * @param text - CSV text with a header row
+   * @returns Loaded backend
+   */
+  static fromCSV(text: string): OfflineBackend {
+    const [header, ...rows] = parseCSV(text);
+    const columns = (header ?? []).map((column) => column.trim());
+    const startColumn = columns.indexOf("start_ip");
+    const endColumn = columns.indexOf("end_ip");
+
+    if (startColumn === -1 || endColumn === -1) {
+      throw new Error("CSV header must include start_ip and end_ip columns");
+    }
+
+    const recordKeys = new Map<string, number>();
+    const records: RangeRecord[] = [];
+    const ranges = rows.map((row, rowIndex) => {
+      const rowNumber = rowIndex + 1;
+      const startIP = (row[startColumn] ?? "").trim();
+      const endIP = (row[endColumn] ?? "").trim();
+      const start = ipToBytes(startIP);
+      const end = ipToBytes(endIP);
+
+      if (!start || !end || startIP.includes(":") !== endIP.includes(":")) {
+        throw new Error(`Invalid IP range on row ${rowNumber}`);
+      }
+
+      if (compareBytes(start, end) > 0) {
+        throw new Error(`Range start is after range end on row ${rowNumber}`);
+      }
+
+      const record = parseRecord(columns, row, rowNumber);
+      const key = JSON.stringify(record);
+      let recordIndex = recordKeys.get(key);
+      if (recordIndex === undefined) {
+        recordIndex = records.push(record) - 1;
+        recordKeys.set(key, recordIndex);
+      }
+
+      return { start, end, recordIndex };
+    });
+
+    ranges.sort((a, b) => compareBytes(a.start, b.start));
+
+    const starts = new Uint8Array(ranges.length * 16);
+    const ends = new Uint8Array(ranges.length * 16);
+    const recordIndexes = new Uint32Array(ranges.length);
+    ranges.forEach((range, index) => {
+      if (index > 0 && compareBytes(range.start, ranges[index - 1].end) <= 0) {
+        throw new Error("CSV contains overlapping IP ranges");
+      }
+      starts.set(range.start, index * 16);
+      ends.set(range.end, index * 16);
+      recordIndexes[index] = range.recordIndex;
+    });
+
+    return new OfflineBackend(starts, ends, recordIndexes, records);
+  }
+
+  /**
+   * Number of ranges in the database
+   */
+  get size(): number {
+    return this.recordIndexes.length;
+  }
+
+  /**
+   * Finds the range containing an IP address
+   * @param ip - Validated IP address in canonical form
+   * @param options - Additional options for the lookup
+   * @returns Promise with Result containing geolocation data or error
+   */
+  async lookup(
+    ip: string,
+    options: LookupOptions = {}
+  ): Promise<Result<IPGeolocationResponse>> {
+    const address = ipToBytes(ip);
+    if (!address) {
+      return {
+        ok: false,
+        error: {
+          type: "INVALID_IP_ADDRESS",
+          message: `Invalid IP address format: ${ip}`,
+        },
+      };
+    }
+
+    // Find the last range starting at or before the address
+    let low = 0;
+    let high = this.size - 1;
+    let match = -1;
+    while (low <= high) {
+      const mid = (low + high) >>> 1;
+      if (
+        compareBytes(this.starts.subarray(mid * 16, mid * 16 + 16), address) <=
+        0
+      ) {
+        match = mid;
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    if (
+      match === -1 ||
+      compareBytes(address, this.ends.subarray(match * 16, match * 16 + 16)) > 0
+    ) {
+      return {
+        ok: false,
+        error: {
+          type: "GEOLOCATION_NOT_FOUND",
+          message: `Geolocation not found for ${ip}`,
+        },
+      };
+    }
+
+    const { asn, isp, ...record } = this.records[this.recordIndexes[match]];
+    const data: IPGeolocationResponse = { ip, ...record };
+    if (options.include?.asn && asn !== undefined) data.asn = asn;
+    if (options.include?.isp && isp !== undefined) data.isp = isp;
+
+    return {
+      ok: true,
+      data,
+    };
+  }
+}
+
+/**
+ * Reads the IPGeolocationResponse fields of one CSV row
+ */
+function parseRecord(
+  columns: string[],
+  row: string[],
+  rowNumber: number
+): RangeRecord {
+  const record: Record<string, unknown> = { in_eu: false, land_locked: false };
+
+  columns.forEach((column, index) => {
+    const value = (row[index] ?? "").trim();
+    if (value === "") return;
+
+    if (STRING_FIELDS.includes(column)) {
+      record[column] = value;
+    } else if (NUMBER_FIELDS.includes(column)) {
+      const number = Number(value);
+      if (Number.isNaN(number)) {
+        throw new Error(`Invalid number for ${column} on row ${rowNumber}`);
+      }
+      record[column] = number;
+    } else if (BOOLEAN_FIELDS.includes(column)) {
+      record[column] = value.toLowerCase() === "true" || value === "1";
+    }
+  });
+
+  return record as RangeRecord;
+}
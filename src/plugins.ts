@@ -0,0 +1,96 @@
+import type { Result, ResultError } from "./index";
+import type { TransportRequest, TransportResponse } from "./transport";
+
+/**
+ * API request seen by plugin hooks. onRequest hooks may change it before it
+ * is sent.
+ */
+export interface PluginRequest
+  extends Omit<TransportRequest, "headers" | "signal"> {
+  /**
+   * Headers sent in addition to the API key and content type
+   */
+  headers: Record<string, string>;
+  /**
+   * Attempt number, starting at 1 and increased by each retry
+   */
+  attempt: number;
+}
+
+/**
+ * Client method whose Result is passed to onResult
+ */
+export type PluginCall =
+  | { method: "lookup"; ip: string }
+  | { method: "bulkLookup"; ips: string[] };
+
+/**
+ * Lifecycle hooks, registered through the plugins option or client.use().
+ * Hooks of several plugins run in registration order, and a hook that throws
+ * fails the attempt or call with UNKNOWN_ERROR.
+ */
+export interface IPFlarePlugin {
+  /**
+   * Called before each API request, including retries. Return a Result to
+   * answer the request without sending it: its data stands in for the
+   * response body, and an error is returned without retrying. Later onRequest
+   * hooks are then skipped.
+   */
+  onRequest?(
+    request: PluginRequest
+  ): void | Result<unknown> | Promise<void | Result<unknown>>;
+  /**
+   * Called with the raw response of each request, whatever its status
+   */
+  onResponse?(
+    response: TransportResponse,
+    request: PluginRequest
+  ): void | Promise<void>;
+  /**
+   * Called when a request fails, before it is retried
+   */
+  onError?(error: ResultError, request: PluginRequest): void | Promise<void>;
+  /**
+   * Called with the final Result of each lookup and bulkLookup call
+   */
+  onResult?(result: Result<unknown>, call: PluginCall): void | Promise<void>;
+}
+
+const HOOKS = ["onRequest", "onResponse", "onError", "onResult"] as const;
+
+/**
+ * Checks that a plugin is an object of hook functions
+ * @param plugin - Plugin to register
+ * @returns The plugin
+ * @throws Error if the plugin or one of its hooks is invalid
+ */
+export function checkPlugin(plugin: IPFlarePlugin): IPFlarePlugin {
+  if (typeof plugin !== "object" || plugin === null) {
+    throw new Error("Plugin must be an object of hooks");
+  }
+
+  HOOKS.forEach((hook) => {
+    if (plugin[hook] !== undefined && typeof plugin[hook] !== "function") {
+      throw new Error(`Plugin ${hook} must be a function`);
+    }
+  });
+
+  return plugin;
+}
+
+/**
+ * Runs the onRequest hooks until one answers the request
+ * @param plugins - Registered plugins
+ * @param request - Request about to be sent
+ * @returns Result answering the request, or undefined to send it
+ */
+export async function runRequestHooks(
+  plugins: IPFlarePlugin[],
+  request: PluginRequest
+): Promise<Result<unknown> | undefined> {
+  for (const plugin of plugins) {
+    const result = await plugin.onRequest?.(request);
+    if (result) return result;
+  }
+  return undefined;
+}
@@ -0,0 +1,150 @@
+import { onAbort } from "./abort";
+
+export interface RateLimitOptions {
+  /**
+   * Number of tokens added to the bucket per second
+   */
+  requestsPerSecond: number;
+  /**
+   * Maximum number of tokens the bucket holds (default requestsPerSecond)
+   */
+  burst?: number;
+  /**
+   * Wait for a token when the bucket is empty instead of failing with
+   * RATE_LIMITED (default true)
+   */
+  queue?: boolean;
+  /**
+   * Number of tokens a bulk lookup request consumes (default 1)
+   */
+  bulkCost?: number;
+}
+
+interface Waiter {
+  cost: number;
+  resolve: (acquired: boolean) => void;
+}
+
+/**
+ * Token bucket that throttles outgoing requests. Queued callers are served in
+ * arrival order so a large request cannot be starved by smaller ones.
+ */
+export class TokenBucket {
+  private readonly rate: number;
+  private readonly capacity: number;
+  private tokens: number;
+  private updatedAt: number;
+  private readonly waiters: Waiter[] = [];
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(options: Pick<RateLimitOptions, "requestsPerSecond" | "burst">) {
+    this.rate = options.requestsPerSecond;
+    this.capacity = options.burst ?? options.requestsPerSecond;
+
+    if (typeof this.rate !== "number" || !(this.rate > 0)) {
+      throw new Error("Rate limit requestsPerSecond must be a positive number");
+    }
+
+    if (typeof this.capacity !== "number" || !(this.capacity >= 1)) {
+      throw new Error("Rate limit burst must be at least 1");
+    }
+
+    this.tokens = this.capacity;
+    this.updatedAt = Date.now();
+  }
+
+  /**
+   * Maximum number of tokens the bucket holds
+   */
+  get burst(): number {
+    return this.capacity;
+  }
+
+  /**
+   * Takes tokens if they are available right now
+   * @param cost - Number of tokens to take
+   * @returns true if the tokens were taken
+   */
+  tryAcquire(cost = 1): boolean {
+    this.refill();
+    if (this.waiters.length > 0 || this.tokens < cost) return false;
+    this.tokens -= cost;
+    return true;
+  }
+
+  /**
+   * Waits until tokens are available, then takes them
+   * @param cost - Number of tokens to take
+   * @param signal - Signal that gives up the wait
+   * @returns Promise with true once the tokens were taken, or false if the
+   * signal aborted first
+   */
+  acquire(cost = 1, signal?: AbortSignal): Promise<boolean> {
+    if (signal?.aborted) return Promise.resolve(false);
+    if (this.tryAcquire(cost)) return Promise.resolve(true);
+
+    return new Promise((resolve) => {
+      const stop = onAbort(signal, () => {
+        this.waiters.splice(this.waiters.indexOf(waiter), 1);
+        resolve(false);
+        // The next waiter may need fewer tokens than the one that left
+        this.reschedule();
+      });
+      const waiter: Waiter = {
+        cost,
+        resolve: (acquired) => {
+          stop();
+          resolve(acquired);
+        },
+      };
+      this.waiters.push(waiter);
+      this.schedule();
+    });
+  }
+
+  /**
+   * Time until the given number of tokens could be taken, ignoring queued callers
+   * @param cost - Number of tokens
+   * @returns Delay in milliseconds
+   */
+  waitTime(cost = 1): number {
+    this.refill();
+    return Math.max(0, Math.ceil(((cost - this.tokens) / this.rate) * 1000));
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + ((now - this.updatedAt) / 1000) * this.rate
+    );
+    this.updatedAt = now;
+  }
+
+  private reschedule(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    this.drain();
+  }
+
+  private schedule(): void {
+    if (this.timer || this.waiters.length === 0) return;
+
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.drain();
+    }, this.waitTime(this.waiters[0].cost));
+  }
+
+  private drain(): void {
+    this.refill();
+    while (this.waiters.length > 0 && this.tokens >= this.waiters[0].cost) {
+      const waiter = this.waiters.shift() as Waiter;
+      this.tokens -= waiter.cost;
+      waiter.resolve(true);
+    }
+    this.schedule();
+  }
+}
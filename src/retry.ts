@@ -0,0 +1,132 @@
+import { onAbort } from "./abort";
+import type { ErrorType } from "./index";
+
+export interface RetryOptions {
+  /**
+   * Maximum number of attempts, including the first request (default 3)
+   */
+  maxAttempts?: number;
+  /**
+   * Delay in milliseconds before the first retry, doubled on each further retry (default 200)
+   */
+  baseDelay?: number;
+  /**
+   * Upper bound in milliseconds for a single delay (default 5000). A Retry-After
+   * header asking for longer than this ends the retries.
+   */
+  maxDelay?: number;
+  /**
+   * Randomize each delay between zero and the backoff value (default true)
+   */
+  jitter?: boolean;
+  /**
+   * Error types that are retried (default NETWORK_ERROR, TIMEOUT, INTERNAL_SERVER_ERROR and QUOTA_EXCEEDED)
+   */
+  retryOn?: ErrorType[];
+}
+
+export type RetryPolicy = Required<RetryOptions>;
+
+/**
+ * Fills in defaults and validates a retry configuration
+ * @param options - Retry options from IPGeolocationOptions
+ * @returns Complete retry policy
+ */
+export function resolveRetryPolicy(options: RetryOptions): RetryPolicy {
+  const policy: RetryPolicy = {
+    maxAttempts: options.maxAttempts ?? 3,
+    baseDelay: options.baseDelay ?? 200,
+    maxDelay: options.maxDelay ?? 5000,
+    jitter: options.jitter ?? true,
+    retryOn: options.retryOn ?? [
+      "NETWORK_ERROR",
+      "TIMEOUT",
+      "INTERNAL_SERVER_ERROR",
+      "QUOTA_EXCEEDED",
+    ],
+  };
+
+  if (!Number.isInteger(policy.maxAttempts) || policy.maxAttempts < 1) {
+    throw new Error("Retry maxAttempts must be a positive integer");
+  }
+
+  if (typeof policy.baseDelay !== "number" || policy.baseDelay < 0) {
+    throw new Error("Retry baseDelay must be a non-negative number");
+  }
+
+  if (typeof policy.maxDelay !== "number" || policy.maxDelay < 0) {
+    throw new Error("Retry maxDelay must be a non-negative number");
+  }
+
+  return policy;
+}
+
+/**
+ * Parses a Retry-After header given either in seconds or as an HTTP date
+ * @param value - Raw header value
+ * @returns Delay in milliseconds, or undefined if the header is missing or malformed
+ */
+export function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value !== "string" && typeof value !== "number") {
+    return undefined;
+  }
+
+  const text = String(value).trim();
+  if (/^\d+$/.test(text)) {
+    return Number(text) * 1000;
+  }
+
+  const date = Date.parse(text);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, date - Date.now());
+}
+
+/**
+ * Decides whether a failed attempt is retried and how long to wait first
+ * @param policy - Retry policy
+ * @param attempt - Number of the attempt that failed, starting at 1
+ * @param type - Error type of the failed attempt
+ * @param retryAfter - Delay requested by the server in milliseconds, if any
+ * @returns Delay in milliseconds, or undefined if the request should not be retried
+ */
+export function getRetryDelay(
+  policy: RetryPolicy,
+  attempt: number,
+  type: ErrorType,
+  retryAfter?: number
+): number | undefined {
+  if (attempt >= policy.maxAttempts || !policy.retryOn.includes(type)) {
+    return undefined;
+  }
+
+  if (retryAfter !== undefined) {
+    return retryAfter <= policy.maxDelay ? retryAfter : undefined;
+  }
+
+  const backoff = Math.min(
+    policy.maxDelay,
+    policy.baseDelay * 2 ** (attempt - 1)
+  );
+  return policy.jitter ? Math.random() * backoff : backoff;
+}
+
+/**
+ * Resolves after the given number of milliseconds, or early when the signal
+ * aborts
+ * @param ms - Delay in milliseconds
+ * @param signal - Signal that ends the wait
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) return Promise.resolve();
+
+  return new Promise((resolve) => {
+    const stop = onAbort(signal, () => {
+      clearTimeout(timer);
+      resolve();
+    });
+    const timer = setTimeout(() => {
+      stop();
+      resolve();
+    }, ms);
+  });
+}
@@ -0,0 +1,201 @@
+export interface StreamOptions {
+  /**
+   * Number of IPs sent per bulk request (default 500, max 500)
+   */
+  batchSize?: number;
+  /**
+   * Maximum number of bulk requests in flight at once (default 4)
+   */
+  concurrency?: number;
+  /**
+   * Yield results in input order (default true). When false, each batch is
+   * yielded as soon as its request finishes.
+   */
+  ordered?: boolean;
+  /**
+   * Time in milliseconds to wait for a slow source to fill a batch before
+   * sending what has arrived (default 100)
+   */
+  flushInterval?: number;
+}
+
+/**
+ * Fills in defaults and validates a streaming configuration
+ * @param options - Stream options from StreamLookupOptions
+ * @returns Complete stream options
+ */
+export function resolveStreamOptions(
+  options: StreamOptions
+): Required<StreamOptions> {
+  const resolved = {
+    batchSize: options.batchSize ?? 500,
+    concurrency: options.concurrency ?? 4,
+    ordered: options.ordered ?? true,
+    flushInterval: options.flushInterval ?? 100,
+  };
+
+  if (
+    !Number.isInteger(resolved.batchSize) ||
+    resolved.batchSize < 1 ||
+    resolved.batchSize > 500
+  ) {
+    throw new Error("Stream batchSize must be an integer between 1 and 500");
+  }
+
+  if (!Number.isInteger(resolved.concurrency) || resolved.concurrency < 1) {
+    throw new Error("Stream concurrency must be a positive integer");
+  }
+
+  if (
+    typeof resolved.flushInterval !== "number" ||
+    !(resolved.flushInterval >= 0)
+  ) {
+    throw new Error("Stream flushInterval must be a non-negative number");
+  }
+
+  return resolved;
+}
+
+interface Batch<T> {
+  items: T[];
+  done: boolean;
+}
+
+interface Completed<R> {
+  id: number;
+  values: R[];
+}
+
+/**
+ * Reads a sync or async source in batches. A batch is complete when it is full,
+ * when the source ends, or when flushInterval passes after its first item.
+ */
+class BatchReader<T> {
+  private readonly iterator: Iterator<T> | AsyncIterator<T>;
+  private readonly isAsync: boolean;
+  private pending?: Promise<IteratorResult<T>>;
+
+  constructor(
+    source: AsyncIterable<T> | Iterable<T>,
+    private readonly size: number,
+    private readonly flushInterval: number
+  ) {
+    this.isAsync = Symbol.asyncIterator in source;
+    this.iterator = this.isAsync
+      ? (source as AsyncIterable<T>)[Symbol.asyncIterator]()
+      : (source as Iterable<T>)[Symbol.iterator]();
+  }
+
+  async read(): Promise<Batch<T>> {
+    const items: T[] = [];
+    let deadline = Infinity;
+
+    while (items.length < this.size) {
+      // A read that outlived the previous batch's deadline is still pending
+      const next = this.pending ?? Promise.resolve(this.iterator.next());
+      this.pending = next;
+
+      const result =
+        items.length > 0 && this.isAsync
+          ? await withDeadline(next, deadline)
+          : await next;
+      if (!result) return { items, done: false };
+
+      this.pending = undefined;
+      if (result.done) return { items, done: true };
+
+      items.push(result.value);
+      if (items.length === 1) deadline = Date.now() + this.flushInterval;
+    }
+
+    return { items, done: false };
+  }
+
+  async close(): Promise<void> {
+    await this.iterator.return?.();
+  }
+}
+
+/**
+ * Resolves with the promise's value, or with undefined once the deadline passes
+ */
+function withDeadline<T>(
+  promise: Promise<T>,
+  deadline: number
+): Promise<T | undefined> {
+  const remaining = deadline - Date.now();
+  if (remaining <= 0) return Promise.resolve(undefined);
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<undefined>((resolve) => {
+    timer = setTimeout(() => resolve(undefined), remaining);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Maps a source through a batch function with bounded concurrency. At most one
+ * batch is read ahead and the source is only read while fewer than
+ * `concurrency` batches are pending, so a slow consumer slows down reading. The
+ * batch function must resolve, never reject, with one value per item in item
+ * order.
+ * @param source - Items to map
+ * @param options - Complete stream options
+ * @param fn - Batch function
+ * @returns Async generator of mapped values
+ */
+export async function* mapBatches<T, R>(
+  source: AsyncIterable<T> | Iterable<T>,
+  options: Required<StreamOptions>,
+  fn: (items: T[]) => Promise<R[]>
+): AsyncGenerator<R, void, undefined> {
+  const reader = new BatchReader(
+    source,
+    options.batchSize,
+    options.flushInterval
+  );
+  // Insertion order is dispatch order, so the first entry is the oldest batch
+  const running = new Map<number, Promise<Completed<R>>>();
+  let reading: Promise<Batch<T>> | undefined;
+  let nextId = 0;
+  let done = false;
+
+  try {
+    while (!done || reading || running.size > 0) {
+      if (!done && !reading && running.size < options.concurrency) {
+        reading = reader.read();
+      }
+
+      // Wake up for whichever comes first: the next batch of input or the next
+      // results that may be yielded
+      const events: Promise<Batch<T> | Completed<R>>[] = [];
+      if (reading) events.push(reading);
+      if (running.size > 0) {
+        const [oldest] = running.values();
+        events.push(options.ordered ? oldest : Promise.race(running.values()));
+      }
+
+      const event = await Promise.race(events);
+      if ("items" in event) {
+        reading = undefined;
+        done = event.done;
+        if (event.items.length > 0) {
+          const id = nextId++;
+          running.set(
+            id,
+            fn(event.items).then((values) => ({ id, values }))
+          );
+        }
+      } else {
+        running.delete(event.id);
+        yield* event.values;
+      }
+    }
+  } finally {
+    if (!done) {
+      // The consumer stopped early, so a read ahead is no longer needed
+      reading?.catch(() => undefined);
+      await reader.close();
+    }
+  }
+}
@@ -0,0 +1,165 @@
+import { onAbort } from "./abort";
+
+/**
+ * Connection settings the client passes to a transport factory
+ */
+export interface TransportConfig {
+  /**
+   * API base URL without a trailing path, e.g. "https://api.ipflare.io"
+   */
+  baseURL: string;
+  /**
+   * Request timeout in milliseconds
+   */
+  timeout: number;
+  /**
+   * Headers sent with every request, including the API key
+   */
+  headers: Record<string, string>;
+}
+
+export interface TransportRequest {
+  method: "GET" | "POST";
+  /**
+   * Path relative to the base URL, e.g. "/8.8.8.8"
+   */
+  path: string;
+  /**
+   * Query parameters
+   */
+  params: Record<string, string>;
+  /**
+   * JSON request body
+   */
+  body?: unknown;
+  /**
+   * Cancels the request; the transport then rejects
+   */
+  signal?: AbortSignal;
+  /**
+   * Timeout in milliseconds for this request, in place of the configured one
+   */
+  timeout?: number;
+  /**
+   * Headers for this request, added to the configured ones
+   */
+  headers?: Record<string, string>;
+}
+
+export interface TransportResponse {
+  status: number;
+  statusText?: string;
+  /**
+   * Response headers with lower-case names
+   */
+  headers: Record<string, string>;
+  /**
+   * Parsed JSON body, or the raw text if the body is not JSON
+   */
+  body: unknown;
+}
+
+/**
+ * HTTP stack used to reach the API. A transport resolves with the response for
+ * every HTTP status and rejects with a TransportError when no response
+ * arrives, flagged as timedOut if the timeout elapsed. Any other rejection is
+ * reported as UNKNOWN_ERROR.
+ */
+export interface Transport {
+  request(request: TransportRequest): Promise<TransportResponse>;
+}
+
+/**
+ * Creates a transport for the client's connection settings
+ */
+export type TransportFactory = (config: TransportConfig) => Transport;
+
+/**
+ * Request that failed without an HTTP response, e.g. because the connection
+ * was refused or timed out; reported as TIMEOUT if timedOut is set and as
+ * NETWORK_ERROR otherwise
+ */
+export class TransportError extends Error {
+  constructor(
+    message: string,
+    readonly cause?: unknown,
+    readonly timedOut = false
+  ) {
+    super(message);
+    this.name = "TransportError";
+  }
+}
+
+/**
+ * Creates a transport backed by the WHATWG fetch API, for runtimes such as
+ * edge functions, Deno and Bun
+ * @param config - Base URL, timeout and default headers
+ * @param fetchImpl - fetch implementation (default: the global fetch)
+ * @returns Transport using fetch
+ */
+export function createFetchTransport(
+  config: TransportConfig,
+  fetchImpl: typeof fetch = (input, init) => fetch(input, init)
+): Transport {
+  const baseURL = config.baseURL.replace(/\/+$/, "");
+
+  return {
+    async request({ method, path, params, body, signal, timeout, headers }) {
+      const limit = timeout ?? config.timeout;
+      const query = new URLSearchParams(params).toString();
+      const url = `${baseURL}${path}${query ? `?${query}` : ""}`;
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), limit);
+      const stop = onAbort(signal, () => controller.abort());
+      if (signal?.aborted) controller.abort();
+
+      try {
+        const response = await fetchImpl(url, {
+          method,
+          headers: { ...config.headers, ...headers },
+          body: body === undefined ? undefined : JSON.stringify(body),
+          signal: controller.signal,
+        });
+        const text = await response.text();
+
+        const responseHeaders: Record<string, string> = {};
+        response.headers.forEach((value, name) => {
+          responseHeaders[name.toLowerCase()] = value;
+        });
+
+        return {
+          status: response.status,
+          statusText: response.statusText,
+          headers: responseHeaders,
+          body: parseBody(text),
+        };
+      } catch (error) {
+        const timedOut = controller.signal.aborted && !signal?.aborted;
+        const message = signal?.aborted
+          ? "The operation was aborted"
+          : timedOut
+          ? `timeout of ${limit}ms exceeded`
+          : error instanceof Error
+          ? error.message
+          : String(error);
+        throw new TransportError(message, error, timedOut);
+      } finally {
+        clearTimeout(timer);
+        stop();
+      }
+    },
+  };
+}
+
+/**
+ * Parses a response body as JSON, keeping the text when it is not JSON like
+ * axios does
+ */
+function parseBody(text: string): unknown {
+  if (text === "") return text;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}